@@ -0,0 +1,255 @@
+/**
+ * On-disk response cache
+ *
+ * Caches API responses per profile under `cache/` in the profile directory,
+ * keyed by API URL, endpoint and query parameters. How long a response stays
+ * fresh depends on what it holds: profile and body rarely change, recent data
+ * is still being scored, and scored records from past days are settled.
+ */
+
+import { createHash } from 'node:crypto';
+import {
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import { getProfileDir } from '../auth/profiles.js';
+import { ENDPOINTS } from './endpoints.js';
+import type { QueryParams } from '../types/whoop.js';
+
+const CACHE_VERSION = 1;
+
+/** Profile and body measurements */
+export const STATIC_TTL_MS = 24 * 60 * 60 * 1000;
+/** Windows that are still open, or records still being scored */
+export const RECENT_TTL_MS = 5 * 60 * 1000;
+/** Scored records from finished windows */
+export const SETTLED_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** How a client uses the cache */
+export interface CacheOptions {
+  /** Read and write the cache (default: false; the CLI enables it unless --no-cache) */
+  enabled: boolean;
+  /** Skip cached responses but store fresh ones (--refresh) */
+  refresh: boolean;
+}
+
+export const DEFAULT_CACHE_OPTIONS: CacheOptions = { enabled: false, refresh: false };
+
+interface CacheEntry<T> {
+  version: number;
+  key: string;
+  endpoint: string;
+  cached_at: string;
+  expires_at: string;
+  data: T;
+}
+
+export interface CacheStats {
+  dir: string;
+  entries: number;
+  fresh: number;
+  expired: number;
+  bytes: number;
+  endpoints: Record<string, number>;
+}
+
+/**
+ * Get the cache directory under a profile directory (default: the active profile's)
+ */
+export function getCacheDir(dataDir: string = getProfileDir()): string {
+  return join(dataDir, 'cache');
+}
+
+/**
+ * Build the cache key for a request
+ */
+function getCacheKey(baseUrl: string, endpoint: string, params: QueryParams = {}): string {
+  return [
+    baseUrl + endpoint,
+    params.start ?? '',
+    params.end ?? '',
+    params.limit ?? '',
+    params.nextToken ?? '',
+  ].join('|');
+}
+
+function getEntryFile(dir: string, key: string): string {
+  return join(dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+}
+
+interface ScoredRecord {
+  score_state?: string;
+  end?: string | null;
+}
+
+/**
+ * Check if a record is scored and, when it has an end, finished
+ */
+function isSettledRecord(record: ScoredRecord, now: number): boolean {
+  return record.score_state === 'SCORED' && !!record.end && Date.parse(record.end) <= now;
+}
+
+/**
+ * Decide how long a response stays fresh
+ */
+export function getTtl(
+  endpoint: string,
+  params: QueryParams = {},
+  data: unknown,
+  now: number = Date.now()
+): number {
+  if (endpoint === ENDPOINTS.profile || endpoint === ENDPOINTS.body) {
+    return STATIC_TTL_MS;
+  }
+
+  const records = (data as { records?: ScoredRecord[] } | null)?.records;
+
+  // Single record
+  if (!records) {
+    return isSettledRecord(data as ScoredRecord, now) ? SETTLED_TTL_MS : RECENT_TTL_MS;
+  }
+
+  // A page is settled once its window has ended and everything in it is scored.
+  // An empty page is not: the strap may still sync records for the window late.
+  const windowEnded = params.end !== undefined && Date.parse(params.end) <= now;
+  return windowEnded &&
+    records.length > 0 &&
+    records.every((record) => record.score_state === 'SCORED')
+    ? SETTLED_TTL_MS
+    : RECENT_TTL_MS;
+}
+
+/**
+ * Get a fresh cached response, if any
+ */
+export function readCache<T>(
+  baseUrl: string,
+  endpoint: string,
+  params?: QueryParams,
+  dir: string = getCacheDir()
+): T | undefined {
+  const key = getCacheKey(baseUrl, endpoint, params);
+  const file = getEntryFile(dir, key);
+
+  if (!existsSync(file)) {
+    return undefined;
+  }
+
+  try {
+    const entry = JSON.parse(readFileSync(file, 'utf8')) as CacheEntry<T>;
+
+    if (entry.version !== CACHE_VERSION || entry.key !== key) {
+      return undefined;
+    }
+
+    if (Date.parse(entry.expires_at) <= Date.now()) {
+      rmSync(file, { force: true });
+      return undefined;
+    }
+
+    return entry.data;
+  } catch {
+    // Unreadable entries are treated as misses and overwritten
+    return undefined;
+  }
+}
+
+/**
+ * Store a response
+ */
+export function writeCache<T>(
+  baseUrl: string,
+  endpoint: string,
+  params: QueryParams | undefined,
+  data: T,
+  dir: string = getCacheDir()
+): void {
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+
+  const now = Date.now();
+  const key = getCacheKey(baseUrl, endpoint, params);
+  const entry: CacheEntry<T> = {
+    version: CACHE_VERSION,
+    key,
+    endpoint,
+    cached_at: new Date(now).toISOString(),
+    expires_at: new Date(now + getTtl(endpoint, params, data, now)).toISOString(),
+    data,
+  };
+
+  // Write then rename, so parallel runs never read a partial entry
+  const file = getEntryFile(dir, key);
+  const tempFile = `${file}.${process.pid}.tmp`;
+  writeFileSync(tempFile, JSON.stringify(entry), { mode: 0o600 });
+  renameSync(tempFile, file);
+}
+
+/**
+ * List cache entry files
+ */
+function listEntryFiles(): string[] {
+  const dir = getCacheDir();
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  return readdirSync(dir)
+    .filter((name) => name.endsWith('.json'))
+    .map((name) => join(dir, name));
+}
+
+/**
+ * Summarize the cache for the active profile
+ */
+export function getCacheStats(): CacheStats {
+  const stats: CacheStats = {
+    dir: getCacheDir(),
+    entries: 0,
+    fresh: 0,
+    expired: 0,
+    bytes: 0,
+    endpoints: {},
+  };
+  const now = Date.now();
+
+  for (const file of listEntryFiles()) {
+    try {
+      const entry = JSON.parse(readFileSync(file, 'utf8')) as CacheEntry<unknown>;
+
+      stats.entries++;
+      stats.bytes += statSync(file).size;
+      if (Date.parse(entry.expires_at) > now) {
+        stats.fresh++;
+      } else {
+        stats.expired++;
+      }
+      stats.endpoints[entry.endpoint] = (stats.endpoints[entry.endpoint] ?? 0) + 1;
+    } catch {
+      // Skip unreadable entries
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Delete all cached responses for the active profile. Returns the number removed.
+ */
+export function clearCache(): number {
+  const files = listEntryFiles();
+
+  for (const file of files) {
+    rmSync(file, { force: true });
+  }
+
+  return files.length;
+}
@@ -1,11 +1,29 @@
 /**
  * WHOOP API client
+ *
+ * `WhoopClient` holds everything a request depends on (base URL, tokens,
+ * transport, store and cache location), so a server can create one client per
+ * user. The module-level functions are thin wrappers over a default client that
+ * uses the stored tokens, store and cache of the active profile, the configured
+ * API URL and the global fetch.
  */
 
 import { getValidTokens } from '../auth/tokens.js';
-import { BASE_URL, ENDPOINTS } from './endpoints.js';
+import { getActiveProfile, getLoginCommand } from '../auth/profiles.js';
+import { getBaseUrl, ENDPOINTS, RECORD_ENDPOINTS, REVOKE_ENDPOINT } from './endpoints.js';
+import { DEFAULT_RETRY_POLICY, withRetry, type RetryPolicy } from './retry.js';
+import {
+  DEFAULT_CACHE_OPTIONS,
+  getCacheDir,
+  readCache,
+  writeCache,
+  type CacheOptions,
+} from './cache.js';
+import { getRequestTimeout, withTimeout } from './timeout.js';
+import { DEFAULT_SCHEMA_OPTIONS, checkPage, checkRecords, type SchemaOptions } from './schema.js';
 import { WhoopError, RateLimitError, ExitCode } from '../utils/errors.js';
-import { getDateRange, nowISO } from '../utils/date.js';
+import { countDays, getWindowRange, nowISO } from '../utils/date.js';
+import { getStoreDir, queryStore } from '../utils/store.js';
 import type {
   WhoopProfile,
   WhoopBody,
@@ -17,157 +35,876 @@ import type {
   QueryParams,
   CombinedOutput,
   DataType,
+  DateWindow,
+  DataTypeError,
+  FetchOptions,
+  IterateOptions,
+  RecordIterable,
 } from '../types/whoop.js';
 
+export { setRequestTimeout, getRequestTimeout } from './timeout.js';
+
+const DEFAULT_PAGE_SIZE = 25;
+
+const ALL_TYPES: DataType[] = ['profile', 'body', 'sleep', 'recovery', 'workout', 'cycle'];
+
+/** Data types with paginated collection endpoints */
+type RecordType = 'sleep' | 'recovery' | 'workout' | 'cycle';
+
+export interface WhoopClientOptions {
+  /** API base URL (default: the `api_url` setting, then the production API) */
+  baseUrl?: string;
+  /** Returns a valid access token (default: the active profile's stored tokens, refreshed as needed) */
+  tokenProvider?: () => string | Promise<string>;
+  /** fetch implementation (default: the global fetch) */
+  fetch?: typeof fetch;
+  /** User-Agent header sent with every request (default: the runtime's) */
+  userAgent?: string;
+  /** Abort a request attempt that takes longer than this (default: the one set with setRequestTimeout) */
+  timeoutMs?: number;
+  /** Retry policy (default: DEFAULT_RETRY_POLICY) */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Use the on-disk response cache under `dataDir`: `true`, or cache options (default: off) */
+  cache?: boolean | Partial<CacheOptions>;
+  /** Directory holding the local store and response cache, like a profile directory (default client: the active profile's) */
+  dataDir?: string;
+  /** Reported as `profile_name` by fetchData (default client: the active profile) */
+  profileName?: string;
+  /** Schema validation of responses (default: pass drifted records through silently) */
+  schema?: Partial<SchemaOptions>;
+}
+
 /**
- * Make an authenticated API request
+ * Retry, cache and schema behaviour of a client, changeable after creation
  */
-async function request<T>(endpoint: string, params?: QueryParams): Promise<T> {
-  const tokens = await getValidTokens();
-
-  const url = new URL(BASE_URL + endpoint);
-
-  if (params?.start) url.searchParams.set('start', params.start);
-  if (params?.end) url.searchParams.set('end', params.end);
-  if (params?.limit) url.searchParams.set('limit', String(params.limit));
-  if (params?.nextToken) url.searchParams.set('nextToken', params.nextToken);
-
-  const response = await fetch(url.toString(), {
-    headers: {
-      Authorization: `Bearer ${tokens.access_token}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    if (response.status === 401) {
-      throw new WhoopError(
-        'Authentication failed. Run: whoop auth login',
-        ExitCode.AUTH_ERROR,
-        401
-      );
-    }
+export interface ClientSettings {
+  retryPolicy: RetryPolicy;
+  cache: CacheOptions;
+  schema: SchemaOptions;
+}
 
-    if (response.status === 429) {
-      const retryAfter = response.headers.get('retry-after');
-      throw new RateLimitError(
-        'Rate limit exceeded',
-        retryAfter ? parseInt(retryAfter, 10) : undefined
-      );
-    }
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into seconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
 
-    throw new WhoopError(
+  const seconds = parseInt(header, 10);
+  if (!isNaN(seconds)) {
+    return seconds;
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(Math.ceil((date - Date.now()) / 1000), 0);
+}
+
+/**
+ * Convert a failed API response into the matching error
+ */
+function toApiError(response: Response): WhoopError {
+  if (response.status === 401) {
+    return new WhoopError(
+      `Authentication failed. Run: ${getLoginCommand()}`,
+      ExitCode.AUTH_ERROR,
+      401,
+      `run: ${getLoginCommand()}`
+    );
+  }
+
+  // WHOOP answers 403 when the token lacks the scope for an endpoint
+  if (response.status === 403) {
+    return new WhoopError(
       `API request failed: ${response.statusText}`,
-      ExitCode.GENERAL_ERROR,
-      response.status
+      ExitCode.MISSING_SCOPE,
+      403,
+      `run: ${getLoginCommand()} (to grant the missing scopes)`
+    );
+  }
+
+  if (response.status === 404) {
+    return new WhoopError(`API request failed: ${response.statusText}`, ExitCode.NOT_FOUND, 404);
+  }
+
+  if (response.status === 429) {
+    return new RateLimitError(
+      'Rate limit exceeded',
+      parseRetryAfter(response.headers.get('retry-after'))
     );
   }
 
-  return response.json() as Promise<T>;
+  return new WhoopError(
+    `API request failed: ${response.statusText}`,
+    ExitCode.GENERAL_ERROR,
+    response.status
+  );
 }
 
 /**
- * Fetch all pages of a paginated endpoint
+ * Describe a failed fetch for one data type
  */
-async function fetchAll<T>(endpoint: string, params: QueryParams, all: boolean): Promise<T[]> {
-  const results: T[] = [];
-  let nextToken: string | undefined;
-
-  do {
-    const response = await request<PaginatedResponse<T>>(endpoint, {
-      ...params,
-      nextToken,
+function toDataTypeError(type: DataType, error: unknown): DataTypeError {
+  if (error instanceof WhoopError) {
+    return {
+      type,
+      http_status: error.httpStatus,
+      message: error.message,
+      exit_code: error.exitCode,
+    };
+  }
+
+  return {
+    type,
+    message: error instanceof Error ? error.message : String(error),
+    exit_code: ExitCode.GENERAL_ERROR,
+  };
+}
+
+export class WhoopClient {
+  private readonly options: WhoopClientOptions;
+  private settings: ClientSettings;
+
+  constructor(options: WhoopClientOptions = {}) {
+    this.options = { ...options };
+
+    const { cache } = options;
+    this.settings = {
+      retryPolicy: { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy },
+      cache: {
+        ...DEFAULT_CACHE_OPTIONS,
+        ...(typeof cache === 'object' ? { enabled: true, ...cache } : { enabled: cache === true }),
+      },
+      schema: { ...DEFAULT_SCHEMA_OPTIONS, ...options.schema },
+    };
+  }
+
+  /**
+   * Change the retry policy, cache or schema options of this client
+   */
+  configure(settings: {
+    retryPolicy?: Partial<RetryPolicy>;
+    cache?: Partial<CacheOptions>;
+    schema?: Partial<SchemaOptions>;
+  }): void {
+    this.settings = {
+      retryPolicy: { ...this.settings.retryPolicy, ...settings.retryPolicy },
+      cache: { ...this.settings.cache, ...settings.cache },
+      schema: { ...this.settings.schema, ...settings.schema },
+    };
+  }
+
+  /**
+   * Get the retry policy, cache and schema options in effect
+   */
+  getSettings(): ClientSettings {
+    return this.settings;
+  }
+
+  /**
+   * Get the directory of the local store, failing if the client has none
+   */
+  getStoreDir(): string {
+    return this.requireDir(this.storeDir, 'The local store');
+  }
+
+  // ==========================================================================
+  // Transport
+  // ==========================================================================
+
+  private get baseUrl(): string {
+    return this.options.baseUrl ?? getBaseUrl();
+  }
+
+  protected get profileName(): string | undefined {
+    return this.options.profileName;
+  }
+
+  protected get storeDir(): string | undefined {
+    return this.options.dataDir !== undefined ? getStoreDir(this.options.dataDir) : undefined;
+  }
+
+  protected get cacheDir(): string | undefined {
+    return this.options.dataDir !== undefined ? getCacheDir(this.options.dataDir) : undefined;
+  }
+
+  /**
+   * Check that the client has a directory for the store or cache
+   */
+  private requireDir(dir: string | undefined, use: string): string {
+    if (dir === undefined) {
+      throw new WhoopError(`${use} needs the client's dataDir option`, ExitCode.INVALID_INPUT);
+    }
+
+    return dir;
+  }
+
+  private async getAccessToken(signal?: AbortSignal): Promise<string> {
+    return this.options.tokenProvider
+      ? this.options.tokenProvider()
+      : (await getValidTokens(signal)).access_token;
+  }
+
+  /**
+   * Send one HTTP request with the client's transport and User-Agent
+   */
+  private async send(url: string, init: RequestInit): Promise<Response> {
+    const fetchImpl = this.options.fetch ?? fetch;
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${await this.getAccessToken(init.signal ?? undefined)}`,
+      ...(init.headers as Record<string, string> | undefined),
+    };
+
+    if (this.options.userAgent !== undefined) {
+      headers['User-Agent'] = this.options.userAgent;
+    }
+
+    try {
+      return await fetchImpl(url, { ...init, headers });
+    } catch (error) {
+      // fetch() rejects with a TypeError when the connection fails
+      if (error instanceof TypeError) {
+        const cause = (error.cause as { code?: string; message?: string } | undefined) ?? {};
+        throw new WhoopError(
+          `Network error: ${cause.code ?? cause.message ?? error.message}`,
+          ExitCode.NETWORK_ERROR
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run one request attempt, aborting it after the timeout or when the caller's signal aborts
+   */
+  private async withTimeout<T>(
+    fn: (signal?: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    return withTimeout(fn, this.options.timeoutMs ?? getRequestTimeout(), signal);
+  }
+
+  /**
+   * Make an authenticated API request, retrying transient failures.
+   * Responses are served from and stored in the on-disk cache when it is enabled;
+   * `validate` checks a fresh response, which is only cached if it passes.
+   */
+  private async request<T>(
+    endpoint: string,
+    params?: QueryParams,
+    signal?: AbortSignal,
+    validate?: (data: T) => boolean
+  ): Promise<T> {
+    const baseUrl = this.baseUrl;
+    const { cache, retryPolicy } = this.settings;
+    const cacheDir = cache.enabled ? this.requireDir(this.cacheDir, 'The cache') : undefined;
+
+    const cached =
+      cacheDir && !cache.refresh ? readCache<T>(baseUrl, endpoint, params, cacheDir) : undefined;
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const data = await withRetry(
+      endpoint,
+      () => this.requestOnce<T>(baseUrl, endpoint, params, signal),
+      retryPolicy,
+      signal
+    );
+
+    // Responses are checked before caching, so only data that matched the schema is kept
+    const valid = validate ? validate(data) : true;
+
+    if (cacheDir && valid) {
+      writeCache(baseUrl, endpoint, params, data, cacheDir);
+    }
+    return data;
+  }
+
+  /**
+   * Make a single authenticated API request
+   */
+  private async requestOnce<T>(
+    baseUrl: string,
+    endpoint: string,
+    params?: QueryParams,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const url = new URL(baseUrl + endpoint);
+
+    if (params?.start) url.searchParams.set('start', params.start);
+    if (params?.end) url.searchParams.set('end', params.end);
+    if (params?.limit) url.searchParams.set('limit', String(params.limit));
+    if (params?.nextToken) url.searchParams.set('nextToken', params.nextToken);
+
+    // The timeout also covers reading the body
+    return this.withTimeout(async (attemptSignal) => {
+      const response = await this.send(url.toString(), {
+        headers: { 'Content-Type': 'application/json' },
+        signal: attemptSignal,
+      });
+
+      if (!response.ok) {
+        throw toApiError(response);
+      }
+
+      return (await response.json()) as T;
+    }, signal);
+  }
+
+  /**
+   * Request a single record and check it against the schema of its data type
+   */
+  private async requestRecord<T>(
+    type: DataType,
+    endpoint: string,
+    signal?: AbortSignal
+  ): Promise<T> {
+    return this.request<T>(endpoint, undefined, signal, (record) =>
+      checkRecords(type, endpoint, [record], this.settings.schema)
+    );
+  }
+
+  /**
+   * Revoke the app's access for the authenticated user, invalidating its tokens server-side
+   */
+  async revokeAccess(signal?: AbortSignal): Promise<void> {
+    const baseUrl = this.baseUrl;
+
+    await withRetry(
+      REVOKE_ENDPOINT,
+      () =>
+        this.withTimeout(async (attemptSignal) => {
+          const response = await this.send(baseUrl + REVOKE_ENDPOINT, {
+            method: 'DELETE',
+            signal: attemptSignal,
+          });
+
+          if (!response.ok) {
+            throw toApiError(response);
+          }
+        }, signal),
+      this.settings.retryPolicy,
+      signal
+    );
+  }
+
+  // ==========================================================================
+  // Pagination
+  // ==========================================================================
+
+  /**
+   * Fetch the pages of a paginated endpoint one at a time, starting at `nextToken`
+   */
+  private async *paginate<T>(
+    type: RecordType,
+    options: IterateOptions
+  ): AsyncGenerator<PaginatedResponse<T>> {
+    const { maxRecords, signal, ...params } = options;
+    const endpoint = ENDPOINTS[type];
+    const pageSize = params.limit ?? DEFAULT_PAGE_SIZE;
+    let remaining = maxRecords ?? Infinity;
+    let nextToken = params.nextToken;
+
+    while (remaining > 0) {
+      const page = await this.request<PaginatedResponse<T>>(
+        endpoint,
+        { ...params, limit: Math.min(pageSize, remaining), nextToken },
+        signal,
+        (data) => {
+          const pageValid = checkPage(type, endpoint, data, this.settings.schema);
+          return checkRecords(type, endpoint, data.records, this.settings.schema) && pageValid;
+        }
+      );
+
+      remaining -= page.records.length;
+      yield page;
+
+      nextToken = page.next_token;
+      if (!nextToken) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Fetch the first page of a paginated endpoint, or every page with `all`
+   */
+  private async fetchAll<T>(
+    type: RecordType,
+    params: QueryParams,
+    all: boolean,
+    onPage?: (records: T[]) => void,
+    signal?: AbortSignal
+  ): Promise<T[]> {
+    const results: T[] = [];
+
+    for await (const page of this.paginate<T>(type, { ...params, signal })) {
+      results.push(...page.records);
+      onPage?.(page.records);
+
+      if (!all) {
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Iterate the records of a paginated endpoint without buffering them
+   */
+  private iterate<T>(type: RecordType, options: IterateOptions): RecordIterable<T> {
+    const paginate = (): AsyncGenerator<PaginatedResponse<T>> => this.paginate<T>(type, options);
+
+    return {
+      pages: paginate,
+      async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+        for await (const page of paginate()) {
+          yield* page.records;
+        }
+      },
+    };
+  }
+
+  // ==========================================================================
+  // Individual Data Fetchers
+  // ==========================================================================
+
+  async getProfile(signal?: AbortSignal): Promise<WhoopProfile> {
+    return this.requestRecord<WhoopProfile>('profile', ENDPOINTS.profile, signal);
+  }
+
+  async getBody(signal?: AbortSignal): Promise<WhoopBody> {
+    return this.requestRecord<WhoopBody>('body', ENDPOINTS.body, signal);
+  }
+
+  async getSleep(
+    params: QueryParams = {},
+    all = false,
+    onPage?: (records: WhoopSleep[]) => void,
+    signal?: AbortSignal
+  ): Promise<WhoopSleep[]> {
+    return this.fetchAll<WhoopSleep>('sleep', { limit: 25, ...params }, all, onPage, signal);
+  }
+
+  async getRecovery(
+    params: QueryParams = {},
+    all = false,
+    onPage?: (records: WhoopRecovery[]) => void,
+    signal?: AbortSignal
+  ): Promise<WhoopRecovery[]> {
+    return this.fetchAll<WhoopRecovery>('recovery', { limit: 25, ...params }, all, onPage, signal);
+  }
+
+  async getWorkout(
+    params: QueryParams = {},
+    all = false,
+    onPage?: (records: WhoopWorkout[]) => void,
+    signal?: AbortSignal
+  ): Promise<WhoopWorkout[]> {
+    return this.fetchAll<WhoopWorkout>('workout', { limit: 25, ...params }, all, onPage, signal);
+  }
+
+  async getCycle(
+    params: QueryParams = {},
+    all = false,
+    onPage?: (records: WhoopCycle[]) => void,
+    signal?: AbortSignal
+  ): Promise<WhoopCycle[]> {
+    return this.fetchAll<WhoopCycle>('cycle', { limit: 25, ...params }, all, onPage, signal);
+  }
+
+  // ==========================================================================
+  // Iterators
+  // ==========================================================================
+
+  /**
+   * Iterate sleeps page by page, in constant memory:
+   *
+   *   for await (const sleep of client.iterateSleep({ start, maxRecords: 1000 })) { ... }
+   *
+   * Breaking out of the loop stops fetching. To resume later, iterate `pages()`
+   * and pass the last page's `next_token` as `nextToken`.
+   */
+  iterateSleep(options: IterateOptions = {}): RecordIterable<WhoopSleep> {
+    return this.iterate<WhoopSleep>('sleep', options);
+  }
+
+  iterateRecovery(options: IterateOptions = {}): RecordIterable<WhoopRecovery> {
+    return this.iterate<WhoopRecovery>('recovery', options);
+  }
+
+  iterateWorkout(options: IterateOptions = {}): RecordIterable<WhoopWorkout> {
+    return this.iterate<WhoopWorkout>('workout', options);
+  }
+
+  iterateCycle(options: IterateOptions = {}): RecordIterable<WhoopCycle> {
+    return this.iterate<WhoopCycle>('cycle', options);
+  }
+
+  // ==========================================================================
+  // Single Record Fetchers
+  // ==========================================================================
+
+  /**
+   * Get a single sleep (follows `WhoopRecovery.sleep_id`)
+   */
+  async getSleepById(id: string | number, signal?: AbortSignal): Promise<WhoopSleep> {
+    return this.requestRecord<WhoopSleep>('sleep', RECORD_ENDPOINTS.sleep(id), signal);
+  }
+
+  async getWorkoutById(id: string | number, signal?: AbortSignal): Promise<WhoopWorkout> {
+    return this.requestRecord<WhoopWorkout>('workout', RECORD_ENDPOINTS.workout(id), signal);
+  }
+
+  async getCycleById(id: string | number, signal?: AbortSignal): Promise<WhoopCycle> {
+    return this.requestRecord<WhoopCycle>('cycle', RECORD_ENDPOINTS.cycle(id), signal);
+  }
+
+  /**
+   * Get the recovery scored for a cycle (follows `WhoopRecovery.cycle_id`)
+   */
+  async getRecoveryForCycle(
+    cycleId: string | number,
+    signal?: AbortSignal
+  ): Promise<WhoopRecovery> {
+    return this.requestRecord<WhoopRecovery>(
+      'recovery',
+      RECORD_ENDPOINTS.cycleRecovery(cycleId),
+      signal
+    );
+  }
+
+  /**
+   * Get the primary sleep that ended a cycle
+   */
+  async getSleepForCycle(cycleId: string | number, signal?: AbortSignal): Promise<WhoopSleep> {
+    return this.requestRecord<WhoopSleep>('sleep', RECORD_ENDPOINTS.cycleSleep(cycleId), signal);
+  }
+
+  // ==========================================================================
+  // Combined Data Fetcher
+  // ==========================================================================
+
+  /**
+   * Fetch multiple data types for a given date or window of dates.
+   * Multi-day windows are fetched as a single start/end query and follow
+   * all pages unless `all` is explicitly false.
+   * With `offline`, records are read from the local store (see `whoop sync`).
+   *
+   * Failed types are reported in `errors` alongside the data that succeeded;
+   * the call only rejects if every type failed, or on the first failure with `strict`.
+   */
+  async fetchData(
+    types: DataType[],
+    date: string | DateWindow,
+    options: FetchOptions = {}
+  ): Promise<CombinedOutput> {
+    const window: DateWindow = typeof date === 'string' ? { from: date, to: date } : date;
+    const days = countDays(window);
+    const isRange = days > 1;
+
+    const { start, end } = getWindowRange(window);
+    const params: QueryParams = { start, end, limit: options.limit };
+    const all = options.all ?? isRange;
+    const { signal } = options;
+
+    const { profileName } = this;
+
+    const output: CombinedOutput = {
+      date: window.to,
+      fetched_at: nowISO(),
+      ...(profileName !== undefined && { profile_name: profileName }),
+    };
+
+    if (isRange) {
+      output.range = { from: window.from, to: window.to, days, start, end };
+    }
+
+    const range = { start, end };
+
+    // Report records as they arrive, for streaming output
+    const onPage =
+      (type: DataType) =>
+      (records: object[]): void =>
+        options.onRecords?.(type, records);
+
+    // Read each type from the local store (offline)
+    const readers: Record<DataType, () => void> = {
+      profile: () => {
+        const records = queryStore('profile', undefined, this.getStoreDir());
+        output.profile = records[0];
+        onPage('profile')(records);
+      },
+      body: () => {
+        const records = queryStore('body', undefined, this.getStoreDir());
+        output.body = records[0];
+        onPage('body')(records);
+      },
+      sleep: () => {
+        output.sleep = queryStore('sleep', range, this.getStoreDir());
+        onPage('sleep')(output.sleep);
+      },
+      recovery: () => {
+        output.recovery = queryStore('recovery', range, this.getStoreDir());
+        onPage('recovery')(output.recovery);
+      },
+      workout: () => {
+        output.workout = queryStore('workout', range, this.getStoreDir());
+        onPage('workout')(output.workout);
+      },
+      cycle: () => {
+        output.cycle = queryStore('cycle', range, this.getStoreDir());
+        onPage('cycle')(output.cycle);
+      },
+    };
+
+    // Define fetchers for each type
+    const fetchers: Record<DataType, () => Promise<void>> = {
+      profile: async () => {
+        output.profile = await this.getProfile(signal);
+        onPage('profile')([output.profile]);
+      },
+      body: async () => {
+        output.body = await this.getBody(signal);
+        onPage('body')([output.body]);
+      },
+      sleep: async () => {
+        output.sleep = await this.getSleep(params, all, onPage('sleep'), signal);
+      },
+      recovery: async () => {
+        output.recovery = await this.getRecovery(params, all, onPage('recovery'), signal);
+      },
+      workout: async () => {
+        output.workout = await this.getWorkout(params, all, onPage('workout'), signal);
+      },
+      cycle: async () => {
+        output.cycle = await this.getCycle(params, all, onPage('cycle'), signal);
+      },
+    };
+
+    const load = (type: DataType): Promise<void> =>
+      options.offline ? Promise.resolve().then(() => readers[type]()) : fetchers[type]();
+
+    // Strict: fail fast on the first error
+    if (options.strict) {
+      await Promise.all(types.map(load));
+      return output;
+    }
+
+    // Fetch requested types in parallel, keeping whatever succeeded
+    const results = await Promise.allSettled(types.map(load));
+    const errors: DataTypeError[] = [];
+    let firstError: unknown;
+
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        firstError ??= result.reason;
+        errors.push(toDataTypeError(types[i] as DataType, result.reason));
+      }
     });
 
-    results.push(...response.records);
-    nextToken = all ? response.next_token : undefined;
-  } while (nextToken);
+    // Nothing to return: surface the error as if strict
+    if (errors.length === types.length && errors.length > 0) {
+      throw firstError;
+    }
+
+    if (errors.length > 0) {
+      output.errors = errors;
+    }
 
-  return results;
+    return output;
+  }
+
+  /**
+   * Fetch all data types for a given date or window of dates
+   */
+  async fetchAllTypes(
+    date: string | DateWindow,
+    options: FetchOptions = {}
+  ): Promise<CombinedOutput> {
+    return this.fetchData(ALL_TYPES, date, options);
+  }
 }
 
 // ============================================================================
-// Individual Data Fetchers
+// Default Client
 // ============================================================================
 
-export async function getProfile(): Promise<WhoopProfile> {
-  return request<WhoopProfile>(ENDPOINTS.profile);
+/**
+ * Client whose profile name, store and cache follow the active profile,
+ * looked up on each use so a later --profile or `whoop auth use` applies
+ */
+class ActiveProfileClient extends WhoopClient {
+  protected override get profileName(): string | undefined {
+    return super.profileName ?? getActiveProfile();
+  }
+
+  protected override get storeDir(): string | undefined {
+    return super.storeDir ?? getStoreDir();
+  }
+
+  protected override get cacheDir(): string | undefined {
+    return super.cacheDir ?? getCacheDir();
+  }
 }
 
-export async function getBody(): Promise<WhoopBody> {
-  return request<WhoopBody>(ENDPOINTS.body);
+const defaultClient: WhoopClient = new ActiveProfileClient();
+
+/**
+ * Get the client behind the module-level functions
+ */
+export function getDefaultClient(): WhoopClient {
+  return defaultClient;
 }
 
-export async function getSleep(params: QueryParams = {}, all = false): Promise<WhoopSleep[]> {
-  return fetchAll<WhoopSleep>(ENDPOINTS.sleep, { limit: 25, ...params }, all);
+/**
+ * Override the retry policy of the default client
+ */
+export function setRetryPolicy(policy: Partial<RetryPolicy>): void {
+  defaultClient.configure({ retryPolicy: policy });
 }
 
-export async function getRecovery(params: QueryParams = {}, all = false): Promise<WhoopRecovery[]> {
-  return fetchAll<WhoopRecovery>(ENDPOINTS.recovery, { limit: 25, ...params }, all);
+/**
+ * Get the retry policy of the default client
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return defaultClient.getSettings().retryPolicy;
 }
 
-export async function getWorkout(params: QueryParams = {}, all = false): Promise<WhoopWorkout[]> {
-  return fetchAll<WhoopWorkout>(ENDPOINTS.workout, { limit: 25, ...params }, all);
+/**
+ * Configure the response cache of the default client (off until enabled)
+ */
+export function setCacheOptions(options: Partial<CacheOptions>): void {
+  defaultClient.configure({ cache: options });
 }
 
-export async function getCycle(params: QueryParams = {}, all = false): Promise<WhoopCycle[]> {
-  return fetchAll<WhoopCycle>(ENDPOINTS.cycle, { limit: 25, ...params }, all);
+/**
+ * Get the cache options of the default client
+ */
+export function getCacheOptions(): CacheOptions {
+  return defaultClient.getSettings().cache;
 }
 
-// ============================================================================
-// Combined Data Fetcher
-// ============================================================================
+/**
+ * Configure schema validation for the default client
+ */
+export function setSchemaOptions(options: Partial<SchemaOptions>): void {
+  defaultClient.configure({ schema: options });
+}
 
 /**
- * Fetch multiple data types for a given date
+ * Get the schema validation options of the default client
  */
-export async function fetchData(
-  types: DataType[],
-  date: string,
-  options: { limit?: number; all?: boolean } = {}
-): Promise<CombinedOutput> {
-  const { start, end } = getDateRange(date);
-  const params: QueryParams = { start, end, limit: options.limit };
+export function getSchemaOptions(): SchemaOptions {
+  return defaultClient.getSettings().schema;
+}
 
-  const output: CombinedOutput = {
-    date,
-    fetched_at: nowISO(),
-  };
+export async function revokeAccess(signal?: AbortSignal): Promise<void> {
+  return defaultClient.revokeAccess(signal);
+}
 
-  // Define fetchers for each type
-  const fetchers: Record<DataType, () => Promise<void>> = {
-    profile: async () => {
-      output.profile = await getProfile();
-    },
-    body: async () => {
-      output.body = await getBody();
-    },
-    sleep: async () => {
-      output.sleep = await getSleep(params, options.all);
-    },
-    recovery: async () => {
-      output.recovery = await getRecovery(params, options.all);
-    },
-    workout: async () => {
-      output.workout = await getWorkout(params, options.all);
-    },
-    cycle: async () => {
-      output.cycle = await getCycle(params, options.all);
-    },
-  };
+export async function getProfile(signal?: AbortSignal): Promise<WhoopProfile> {
+  return defaultClient.getProfile(signal);
+}
 
-  // Fetch requested types in parallel
-  await Promise.all(types.map((type) => fetchers[type]()));
+export async function getBody(signal?: AbortSignal): Promise<WhoopBody> {
+  return defaultClient.getBody(signal);
+}
 
-  return output;
+export async function getSleep(
+  params: QueryParams = {},
+  all = false,
+  onPage?: (records: WhoopSleep[]) => void,
+  signal?: AbortSignal
+): Promise<WhoopSleep[]> {
+  return defaultClient.getSleep(params, all, onPage, signal);
+}
+
+export async function getRecovery(
+  params: QueryParams = {},
+  all = false,
+  onPage?: (records: WhoopRecovery[]) => void,
+  signal?: AbortSignal
+): Promise<WhoopRecovery[]> {
+  return defaultClient.getRecovery(params, all, onPage, signal);
+}
+
+export async function getWorkout(
+  params: QueryParams = {},
+  all = false,
+  onPage?: (records: WhoopWorkout[]) => void,
+  signal?: AbortSignal
+): Promise<WhoopWorkout[]> {
+  return defaultClient.getWorkout(params, all, onPage, signal);
+}
+
+export async function getCycle(
+  params: QueryParams = {},
+  all = false,
+  onPage?: (records: WhoopCycle[]) => void,
+  signal?: AbortSignal
+): Promise<WhoopCycle[]> {
+  return defaultClient.getCycle(params, all, onPage, signal);
+}
+
+export function iterateSleep(options: IterateOptions = {}): RecordIterable<WhoopSleep> {
+  return defaultClient.iterateSleep(options);
+}
+
+export function iterateRecovery(options: IterateOptions = {}): RecordIterable<WhoopRecovery> {
+  return defaultClient.iterateRecovery(options);
+}
+
+export function iterateWorkout(options: IterateOptions = {}): RecordIterable<WhoopWorkout> {
+  return defaultClient.iterateWorkout(options);
+}
+
+export function iterateCycle(options: IterateOptions = {}): RecordIterable<WhoopCycle> {
+  return defaultClient.iterateCycle(options);
+}
+
+export async function getSleepById(id: string | number, signal?: AbortSignal): Promise<WhoopSleep> {
+  return defaultClient.getSleepById(id, signal);
+}
+
+export async function getWorkoutById(
+  id: string | number,
+  signal?: AbortSignal
+): Promise<WhoopWorkout> {
+  return defaultClient.getWorkoutById(id, signal);
+}
+
+export async function getCycleById(id: string | number, signal?: AbortSignal): Promise<WhoopCycle> {
+  return defaultClient.getCycleById(id, signal);
+}
+
+export async function getRecoveryForCycle(
+  cycleId: string | number,
+  signal?: AbortSignal
+): Promise<WhoopRecovery> {
+  return defaultClient.getRecoveryForCycle(cycleId, signal);
+}
+
+export async function getSleepForCycle(
+  cycleId: string | number,
+  signal?: AbortSignal
+): Promise<WhoopSleep> {
+  return defaultClient.getSleepForCycle(cycleId, signal);
+}
+
+export async function fetchData(
+  types: DataType[],
+  date: string | DateWindow,
+  options: FetchOptions = {}
+): Promise<CombinedOutput> {
+  return defaultClient.fetchData(types, date, options);
 }
 
-/**
- * Fetch all data types for a given date
- */
 export async function fetchAllTypes(
-  date: string,
-  options: { limit?: number; all?: boolean } = {}
+  date: string | DateWindow,
+  options: FetchOptions = {}
 ): Promise<CombinedOutput> {
-  return fetchData(['profile', 'body', 'sleep', 'recovery', 'workout', 'cycle'], date, options);
+  return defaultClient.fetchAllTypes(date, options);
 }
@@ -2,7 +2,16 @@
  * WHOOP API v2 endpoints
  */
 
-export const BASE_URL = process.env['WHOOP_API_URL'] ?? 'https://api.prod.whoop.com/developer';
+import { getSetting } from '../utils/config.js';
+
+export const DEFAULT_BASE_URL = 'https://api.prod.whoop.com/developer';
+
+/**
+ * Get the API base URL (WHOOP_API_URL, then config, then the production API)
+ */
+export function getBaseUrl(): string {
+  return getSetting('api_url') ?? DEFAULT_BASE_URL;
+}
 
 export const ENDPOINTS = {
   profile: '/v2/user/profile/basic',
@@ -14,3 +23,19 @@ export const ENDPOINTS = {
 } as const;
 
 export type EndpointKey = keyof typeof ENDPOINTS;
+
+/**
+ * Single-record endpoints. Sleep and workout IDs are UUIDs; cycle IDs are integers.
+ */
+export const RECORD_ENDPOINTS = {
+  sleep: (id: string | number) => `/v2/activity/sleep/${encodeURIComponent(id)}`,
+  workout: (id: string | number) => `/v2/activity/workout/${encodeURIComponent(id)}`,
+  cycle: (id: string | number) => `/v2/cycle/${encodeURIComponent(id)}`,
+  cycleRecovery: (id: string | number) => `/v2/cycle/${encodeURIComponent(id)}/recovery`,
+  cycleSleep: (id: string | number) => `/v2/cycle/${encodeURIComponent(id)}/sleep`,
+} as const;
+
+/**
+ * Revokes the access granted by the user (DELETE)
+ */
+export const REVOKE_ENDPOINT = '/v2/user/access';
@@ -0,0 +1,125 @@
+/**
+ * Retry policy for API requests
+ *
+ * Retries transient failures (rate limits, 5xx responses, network errors)
+ * with exponential backoff. A Retry-After header always takes precedence
+ * over the computed backoff.
+ */
+
+import { WhoopError, RateLimitError, ExitCode } from '../utils/errors.js';
+
+export interface RetryEvent {
+  endpoint: string;
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export interface RetryPolicy {
+  /** Total attempts, including the first request */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on each subsequent retry */
+  baseDelayMs: number;
+  /** Longest single wait, including Retry-After; longer waits are not retried */
+  maxDelayMs: number;
+  /** Random jitter as a fraction of the delay (0-1) */
+  jitter: number;
+  /** Called before each retry */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+  jitter: 0.2,
+};
+
+/**
+ * Check whether a failed request is worth retrying
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof RateLimitError) {
+    return true;
+  }
+
+  if (error instanceof WhoopError) {
+    return (
+      error.exitCode === ExitCode.NETWORK_ERROR ||
+      (error.httpStatus !== undefined && error.httpStatus >= 500)
+    );
+  }
+
+  // fetch() rejects with a TypeError on network failures
+  return error instanceof TypeError;
+}
+
+/**
+ * Compute the wait before the next attempt, or null if waiting would exceed maxDelayMs
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  error: unknown,
+  random: () => number = Math.random
+): number | null {
+  if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+    const retryAfterMs = error.retryAfter * 1000;
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : null;
+  }
+
+  const backoff = policy.baseDelayMs * 2 ** (attempt - 1);
+  const jittered = backoff * (1 + policy.jitter * (random() * 2 - 1));
+
+  return Math.min(Math.max(Math.round(jittered), 0), policy.maxDelayMs);
+}
+
+/**
+ * Wait before the next attempt, stopping early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason as Error);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a request, retrying transient failures according to the policy.
+ * Aborting the signal stops further attempts and cuts a backoff wait short.
+ */
+export async function withRetry<T>(
+  endpoint: string,
+  fn: () => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryable(error)) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(attempt, policy, error);
+      if (delayMs === null) {
+        throw error;
+      }
+
+      policy.onRetry?.({ endpoint, attempt, maxAttempts: policy.maxAttempts, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
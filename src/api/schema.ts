@@ -0,0 +1,337 @@
+/**
+ * Runtime validation of API responses
+ *
+ * Checks responses against the types in `types/whoop.ts`, so a field WHOOP
+ * renames, drops or retypes is reported as schema drift instead of surfacing
+ * later as an undefined property in a formatter. Unknown extra fields are
+ * allowed, and optional fields may also be null.
+ */
+
+import { SchemaError } from '../utils/errors.js';
+import type { DataType } from '../types/whoop.js';
+
+export interface SchemaIssue {
+  /** Dotted path within the record, e.g. `score.stage_summary.total_rem_sleep_time_milli` */
+  path: string;
+  expected: string;
+  received: string;
+}
+
+/**
+ * Issues found in one record (or in the page wrapping the records)
+ */
+export interface SchemaDrift {
+  type: DataType;
+  endpoint: string;
+  /** Record ID (`cycle_id` for recoveries, `user_id` for the profile), if the record has one */
+  id?: string | number;
+  issues: SchemaIssue[];
+}
+
+export interface SchemaOptions {
+  /** Throw a SchemaError on drift instead of passing the data through (--strict-schema) */
+  strict: boolean;
+  /** Called for each record with drift (the CLI logs a warning) */
+  onDrift?: (drift: SchemaDrift) => void;
+}
+
+export const DEFAULT_SCHEMA_OPTIONS: SchemaOptions = { strict: false };
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+type Check = (value: unknown, path: string, issues: SchemaIssue[]) => void;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive(type: 'string' | 'number' | 'boolean'): Check {
+  return (value, path, issues) => {
+    if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+      issues.push({ path, expected: type, received: describe(value) });
+    }
+  };
+}
+
+const string = primitive('string');
+const number = primitive('number');
+const boolean = primitive('boolean');
+
+/** A timestamp string that Date can parse */
+const timestamp: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+    issues.push({ path, expected: 'ISO timestamp', received: describe(value) });
+  }
+};
+
+function optional(check: Check): Check {
+  return (value, path, issues) => {
+    if (value !== undefined && value !== null) {
+      check(value, path, issues);
+    }
+  };
+}
+
+function oneOf(values: readonly string[]): Check {
+  return (value, path, issues) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      issues.push({
+        path,
+        expected: values.join(' | '),
+        received: typeof value === 'string' ? JSON.stringify(value) : describe(value),
+      });
+    }
+  };
+}
+
+function object(shape: Record<string, Check>): Check {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path: path || '(record)', expected: 'object', received: describe(value) });
+      return;
+    }
+
+    for (const [key, check] of Object.entries(shape)) {
+      check((value as Record<string, unknown>)[key], join(path, key), issues);
+    }
+  };
+}
+
+const SCORE_STATES = ['SCORED', 'PENDING_SCORE', 'UNSCORABLE'] as const;
+
+/**
+ * A scored record: `score` is required once scored, and absent or null otherwise
+ */
+function scored(shape: Record<string, Check>, score: Check): Check {
+  const record = object({ ...shape, score_state: oneOf(SCORE_STATES), score: optional(score) });
+
+  return (value, path, issues) => {
+    record(value, path, issues);
+
+    const fields = value as { score_state?: unknown; score?: unknown } | null;
+    if (fields?.score_state === 'SCORED' && (fields.score === undefined || fields.score === null)) {
+      issues.push({
+        path: join(path, 'score'),
+        expected: 'object',
+        received: describe(fields.score),
+      });
+    }
+  };
+}
+
+const RECORD_FIELDS = {
+  user_id: number,
+  created_at: timestamp,
+  updated_at: timestamp,
+};
+
+const SCHEMAS: Record<DataType, Check> = {
+  profile: object({ user_id: number, email: string, first_name: string, last_name: string }),
+  body: object({ height_meter: number, weight_kilogram: number, max_heart_rate: number }),
+  sleep: scored(
+    {
+      id: string,
+      ...RECORD_FIELDS,
+      start: timestamp,
+      end: timestamp,
+      timezone_offset: string,
+      nap: boolean,
+    },
+    object({
+      stage_summary: object({
+        total_in_bed_time_milli: number,
+        total_awake_time_milli: number,
+        total_no_data_time_milli: number,
+        total_light_sleep_time_milli: number,
+        total_slow_wave_sleep_time_milli: number,
+        total_rem_sleep_time_milli: number,
+        sleep_cycle_count: number,
+        disturbance_count: number,
+      }),
+      sleep_needed: object({
+        baseline_milli: number,
+        need_from_sleep_debt_milli: number,
+        need_from_recent_strain_milli: number,
+        need_from_recent_nap_milli: number,
+      }),
+      respiratory_rate: number,
+      sleep_performance_percentage: number,
+      sleep_consistency_percentage: number,
+      sleep_efficiency_percentage: number,
+    })
+  ),
+  recovery: scored(
+    { cycle_id: number, sleep_id: string, ...RECORD_FIELDS },
+    object({
+      user_calibrating: boolean,
+      recovery_score: number,
+      resting_heart_rate: number,
+      hrv_rmssd_milli: number,
+      spo2_percentage: optional(number),
+      skin_temp_celsius: optional(number),
+    })
+  ),
+  workout: scored(
+    {
+      id: string,
+      ...RECORD_FIELDS,
+      start: timestamp,
+      end: timestamp,
+      timezone_offset: string,
+      sport_id: number,
+    },
+    object({
+      strain: number,
+      average_heart_rate: number,
+      max_heart_rate: number,
+      kilojoule: number,
+      percent_recorded: number,
+      distance_meter: optional(number),
+      altitude_gain_meter: optional(number),
+      altitude_change_meter: optional(number),
+      zone_duration: object({
+        zone_zero_milli: number,
+        zone_one_milli: number,
+        zone_two_milli: number,
+        zone_three_milli: number,
+        zone_four_milli: number,
+        zone_five_milli: number,
+      }),
+    })
+  ),
+  cycle: scored(
+    {
+      id: number,
+      ...RECORD_FIELDS,
+      start: timestamp,
+      end: optional(timestamp),
+      timezone_offset: string,
+    },
+    object({
+      strain: number,
+      kilojoule: number,
+      average_heart_rate: number,
+      max_heart_rate: number,
+    })
+  ),
+};
+
+/** Records are checked one by one, so a page only needs an array */
+const array: Check = (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, expected: 'array', received: describe(value) });
+  }
+};
+
+const PAGE = object({ records: array, next_token: optional(string) });
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check a record of a data type against its schema
+ */
+export function validateRecord(type: DataType, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  SCHEMAS[type](value, '', issues);
+  return issues;
+}
+
+/**
+ * Check the wrapper of a paginated response (not its records)
+ */
+export function validatePage(value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  PAGE(value, '', issues);
+  return issues;
+}
+
+/**
+ * Get the ID a record is known by, for drift reports
+ */
+function getRecordId(type: DataType, value: unknown): string | number | undefined {
+  const record = (value ?? {}) as Record<string, unknown>;
+  const id =
+    type === 'recovery'
+      ? record['cycle_id']
+      : type === 'profile'
+        ? record['user_id']
+        : record['id'];
+  return typeof id === 'string' || typeof id === 'number' ? id : undefined;
+}
+
+/**
+ * Describe drift in one line, e.g.
+ * `sleep 1b2c: score.respiratory_rate: expected number, got string`
+ */
+export function formatSchemaDrift(drift: SchemaDrift): string {
+  const record = drift.id !== undefined ? `${drift.type} ${drift.id}` : drift.type;
+  const issues = drift.issues.map(
+    (issue) => `${issue.path}: expected ${issue.expected}, got ${issue.received}`
+  );
+  return `${record}: ${issues.join('; ')}`;
+}
+
+/**
+ * Validate the wrapper of a paginated response, returning whether it matched.
+ * A page without a `records` array is always an error, since there is nothing
+ * to pass through.
+ */
+export function checkPage(
+  type: DataType,
+  endpoint: string,
+  page: unknown,
+  options: SchemaOptions = DEFAULT_SCHEMA_OPTIONS
+): boolean {
+  const issues = validatePage(page);
+  if (issues.length === 0) {
+    return true;
+  }
+
+  const drift: SchemaDrift = { type, endpoint, issues };
+  if (options.strict || !Array.isArray((page as { records?: unknown } | null)?.records)) {
+    throw new SchemaError(`Unexpected API response for ${formatSchemaDrift(drift)}`, drift);
+  }
+  options.onDrift?.(drift);
+  return false;
+}
+
+/**
+ * Validate records from an endpoint, returning whether they all matched.
+ * Drift is reported through `onDrift`, or throws a SchemaError on the first
+ * drifted record when strict.
+ */
+export function checkRecords(
+  type: DataType,
+  endpoint: string,
+  records: unknown[],
+  options: SchemaOptions = DEFAULT_SCHEMA_OPTIONS
+): boolean {
+  let valid = true;
+
+  for (const record of records) {
+    const issues = validateRecord(type, record);
+    if (issues.length === 0) {
+      continue;
+    }
+
+    valid = false;
+
+    const drift: SchemaDrift = { type, endpoint, id: getRecordId(type, record), issues };
+    if (options.strict) {
+      throw new SchemaError(`Unexpected API response for ${formatSchemaDrift(drift)}`, drift);
+    }
+    options.onDrift?.(drift);
+  }
+
+  return valid;
+}
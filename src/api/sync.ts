@@ -0,0 +1,126 @@
+/**
+ * Incremental sync into the local data store
+ *
+ * The first sync pulls every record. Later syncs only re-fetch a trailing
+ * lookback window from the newest stored record, and use updated_at to pick
+ * up records that are new or were re-scored since the last run.
+ */
+
+import { getDefaultClient, type WhoopClient } from './client.js';
+import { readStore, writeStore, mergeRecords, getRecordTime } from '../utils/store.js';
+import { nowISO } from '../utils/date.js';
+import type { DataType, QueryParams } from '../types/whoop.js';
+import type { StoreRecordMap } from '../utils/store.js';
+
+const DEFAULT_LOOKBACK_DAYS = 7;
+
+export const SYNC_TYPES: DataType[] = ['profile', 'body', 'sleep', 'recovery', 'workout', 'cycle'];
+
+export interface SyncTypeResult {
+  since?: string;
+  fetched: number;
+  added: number;
+  updated: number;
+  total: number;
+}
+
+export interface SyncResult {
+  synced_at: string;
+  full: boolean;
+  types: Partial<Record<DataType, SyncTypeResult>>;
+}
+
+export interface SyncOptions {
+  types?: DataType[];
+  /** Ignore stored records and re-fetch everything */
+  full?: boolean;
+  /** Days before the newest stored record to re-check for re-scores */
+  lookbackDays?: number;
+  onProgress?: (type: DataType, result: SyncTypeResult) => void;
+  /** Client to fetch with, whose `dataDir` holds the store (default: the active profile's) */
+  client?: WhoopClient;
+}
+
+/**
+ * Fetch records of one type, starting from `since` (or everything)
+ */
+async function fetchType<K extends DataType>(
+  client: WhoopClient,
+  type: K,
+  since?: string
+): Promise<StoreRecordMap[K][]> {
+  const params: QueryParams = since ? { start: since } : {};
+
+  const fetchers: { [T in DataType]: () => Promise<StoreRecordMap[T][]> } = {
+    profile: async () => [await client.getProfile()],
+    body: async () => [await client.getBody()],
+    sleep: () => client.getSleep(params, true),
+    recovery: () => client.getRecovery(params, true),
+    workout: () => client.getWorkout(params, true),
+    cycle: () => client.getCycle(params, true),
+  };
+
+  return fetchers[type]();
+}
+
+/**
+ * Get the start of the incremental window for a data type
+ */
+function getSince<K extends DataType>(
+  type: K,
+  records: StoreRecordMap[K][],
+  lookbackDays: number
+): string | undefined {
+  const newest = records
+    .map((record) => getRecordTime(type, record))
+    .filter((time): time is string => time !== undefined)
+    .sort()
+    .pop();
+
+  if (!newest) {
+    return undefined;
+  }
+
+  return new Date(new Date(newest).getTime() - lookbackDays * 86400000).toISOString();
+}
+
+/**
+ * Sync records from the WHOOP API into the local store
+ */
+export async function sync(options: SyncOptions = {}): Promise<SyncResult> {
+  const types = options.types ?? SYNC_TYPES;
+  const lookbackDays = options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS;
+  const syncedAt = nowISO();
+  const client = options.client ?? getDefaultClient();
+  const dir = client.getStoreDir();
+
+  const result: SyncResult = {
+    synced_at: syncedAt,
+    full: options.full ?? false,
+    types: {},
+  };
+
+  // Sequential, to stay well clear of rate limits
+  for (const type of types) {
+    const existing = options.full ? [] : (readStore(type, dir)?.records ?? []);
+    const since = getSince(type, existing, lookbackDays);
+
+    const fetched = await fetchType(client, type, since);
+    const merged = mergeRecords(type, existing, fetched);
+
+    writeStore(type, merged.records, syncedAt, dir);
+
+    const typeResult: SyncTypeResult = {
+      since,
+      fetched: fetched.length,
+      added: merged.added,
+      updated: merged.updated,
+      total: merged.records.length,
+    };
+
+    result.types[type] = typeResult;
+    options.onProgress?.(type, typeResult);
+  }
+
+  return result;
+}
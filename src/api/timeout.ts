@@ -0,0 +1,66 @@
+/**
+ * Request timeouts
+ *
+ * Shared by the API client and the OAuth token requests, so a hung token
+ * endpoint fails like a hung API request instead of blocking forever.
+ */
+
+import { TimeoutError } from '../utils/errors.js';
+
+let requestTimeoutMs: number | undefined;
+
+/**
+ * Set the per-attempt timeout used by clients without their own (undefined: no timeout)
+ */
+export function setRequestTimeout(ms?: number): void {
+  requestTimeoutMs = ms;
+}
+
+/**
+ * Get the request timeout currently in effect
+ */
+export function getRequestTimeout(): number | undefined {
+  return requestTimeoutMs;
+}
+
+/**
+ * Combine signals into one that aborts when any of them does
+ */
+export function anySignal(signals: AbortSignal[]): AbortSignal {
+  const controller = new AbortController();
+
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+
+  return controller.signal;
+}
+
+/**
+ * Run one request attempt, aborting it after `timeoutMs` (raising a
+ * TimeoutError) or when the caller's signal aborts
+ */
+export async function withTimeout<T>(
+  fn: (signal?: AbortSignal) => Promise<T>,
+  timeoutMs: number | undefined,
+  signal?: AbortSignal
+): Promise<T> {
+  if (timeoutMs === undefined) {
+    return fn(signal);
+  }
+
+  const timeout = AbortSignal.timeout(timeoutMs);
+
+  try {
+    return await fn(signal ? anySignal([signal, timeout]) : timeout);
+  } catch (error) {
+    if (timeout.aborted && !signal?.aborted) {
+      throw new TimeoutError(`Request timed out after ${timeoutMs}ms`, timeoutMs);
+    }
+    throw error;
+  }
+}
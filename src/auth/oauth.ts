@@ -2,7 +2,8 @@
  * OAuth2 authentication flow
  */
 
-import { randomBytes } from 'node:crypto';
+import { createHash, randomBytes } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
 import open from 'open';
 import {
   saveTokens,
@@ -10,17 +11,26 @@ import {
   deleteTokens,
   hasTokens,
   isTokenExpired,
-  refreshAccessToken,
+  refreshStoredTokens,
   getTokenDir,
+  unlockTokens,
+  createTokenBundle,
+  openTokenBundle,
+  type TokenBundle,
 } from './tokens.js';
+import { getActiveProfile, getLoginCommand } from './profiles.js';
 import { startCallbackServer, getCallbackUrl } from './server.js';
-import { AuthError } from '../utils/errors.js';
+import { revokeAccess } from '../api/client.js';
+import { getRequestTimeout, withTimeout } from '../api/timeout.js';
+import { AuthError, WhoopError, ExitCode } from '../utils/errors.js';
+import { prompt } from '../utils/prompt.js';
+import { getSetting } from '../utils/config.js';
 import type { OAuthTokens, AuthStatus } from '../types/whoop.js';
 
 const AUTH_URL = 'https://api.prod.whoop.com/oauth/oauth2/auth';
 const TOKEN_URL = 'https://api.prod.whoop.com/oauth/oauth2/token';
 
-const SCOPES = [
+export const SCOPES = [
   'read:profile',
   'read:body_measurement',
   'read:recovery',
@@ -28,7 +38,24 @@ const SCOPES = [
   'read:workout',
   'read:cycles',
   'offline', // Required to get refresh_token
-].join(' ');
+];
+
+export interface LogoutOptions {
+  /** Only delete the local tokens, without revoking them with WHOOP */
+  localOnly?: boolean;
+}
+
+export interface LoginOptions {
+  /** Open a browser and wait for the callback (default), or print the URL and read the code from stdin */
+  browser?: boolean;
+  /** Callback server port (0 for any free port) */
+  port?: number;
+}
+
+export interface PkcePair {
+  code_verifier: string;
+  code_challenge: string;
+}
 
 /**
  * Generate a random state parameter for CSRF protection
@@ -37,21 +64,76 @@ function generateState(): string {
   return randomBytes(32).toString('hex');
 }
 
+/**
+ * Generate a PKCE code verifier and its S256 challenge (RFC 7636)
+ */
+export function generatePkce(): PkcePair {
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  return { code_verifier: verifier, code_challenge: challenge };
+}
+
 /**
  * Build the authorization URL
  */
-function buildAuthUrl(clientId: string, redirectUri: string, state: string): string {
+export function buildAuthUrl(
+  clientId: string,
+  redirectUri: string,
+  state: string,
+  codeChallenge: string
+): string {
   const params = new URLSearchParams({
     client_id: clientId,
     redirect_uri: redirectUri,
     response_type: 'code',
-    scope: SCOPES,
+    scope: SCOPES.join(' '),
     state,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
   });
 
   return `${AUTH_URL}?${params.toString()}`;
 }
 
+/**
+ * Extract the authorization code from a pasted redirect URL or a bare code.
+ * A redirect URL must carry the expected state.
+ */
+export function parseAuthorizationResponse(input: string, expectedState: string): string {
+  const value = input.trim();
+
+  if (!value) {
+    throw new AuthError('No authorization code provided');
+  }
+
+  // Bare code
+  if (!value.includes('?') && !value.startsWith('code=')) {
+    return value;
+  }
+
+  // Full redirect URL, or just its query string
+  const params = value.includes('?')
+    ? new URL(value, 'http://localhost').searchParams
+    : new URLSearchParams(value);
+  const error = params.get('error');
+  const code = params.get('code');
+  const state = params.get('state');
+
+  if (error) {
+    throw new AuthError(`OAuth error: ${error}`);
+  }
+
+  if (!code) {
+    throw new AuthError('Missing code in redirect URL');
+  }
+
+  if (state !== expectedState) {
+    throw new AuthError('State mismatch - possible CSRF attack');
+  }
+
+  return code;
+}
+
 /**
  * Exchange authorization code for tokens
  */
@@ -59,34 +141,40 @@ async function exchangeCode(
   code: string,
   clientId: string,
   clientSecret: string,
-  redirectUri: string
+  redirectUri: string,
+  codeVerifier: string
 ): Promise<OAuthTokens> {
-  const response = await fetch(TOKEN_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      grant_type: 'authorization_code',
-      code,
-      client_id: clientId,
-      client_secret: clientSecret,
-      redirect_uri: redirectUri,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new AuthError(`Failed to exchange code: ${error}`);
-  }
-
-  const data = (await response.json()) as {
-    access_token: string;
-    refresh_token: string;
-    expires_in: number;
-    token_type: string;
-    scope: string;
-  };
+  // The timeout also covers reading the body
+  const data = await withTimeout(async (signal) => {
+    const response = await fetch(TOKEN_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        client_id: clientId,
+        client_secret: clientSecret,
+        redirect_uri: redirectUri,
+        code_verifier: codeVerifier,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new AuthError(`Failed to exchange code: ${error}`);
+    }
+
+    return (await response.json()) as {
+      access_token: string;
+      refresh_token: string;
+      expires_in: number;
+      token_type: string;
+      scope: string;
+    };
+  }, getRequestTimeout());
 
   return {
     access_token: data.access_token,
@@ -98,106 +186,291 @@ async function exchangeCode(
 }
 
 /**
- * Start the OAuth login flow
+ * Start the OAuth login flow.
+ * By default opens a browser and waits for the local callback; with
+ * `browser: false` prints the authorization URL and reads the redirect
+ * URL (or code) from stdin, for SSH sessions and containers.
  */
-export async function login(): Promise<void> {
-  const clientId = process.env['WHOOP_CLIENT_ID'];
-  const clientSecret = process.env['WHOOP_CLIENT_SECRET'];
+export async function login(options: LoginOptions = {}): Promise<void> {
+  // Without the callback server nothing resolves port 0, so the redirect would be localhost:0
+  if (options.browser === false && options.port === 0 && !getSetting('redirect_uri')) {
+    throw new WhoopError(
+      '--port 0 needs the callback server; use a fixed --port with --no-browser',
+      ExitCode.INVALID_INPUT
+    );
+  }
+
+  const clientId = getSetting('client_id');
+  const clientSecret = getSetting('client_secret');
 
   if (!clientId || !clientSecret) {
     throw new AuthError(
-      'WHOOP_CLIENT_ID and WHOOP_CLIENT_SECRET must be set.\n' +
-        'Get these from: https://developer.whoop.com'
+      'WHOOP_CLIENT_ID and WHOOP_CLIENT_SECRET must be set ' +
+        '(or: whoop config set client_id <id>, whoop config set client_secret).\n' +
+        'Get these from: https://developer.whoop.com',
+      'run: whoop config set client_id <id>'
     );
   }
 
-  const redirectUri = getCallbackUrl();
   const state = generateState();
+  const pkce = generatePkce();
+  let redirectUri: string;
+  let code: string;
 
-  // Build auth URL
-  const authUrl = buildAuthUrl(clientId, redirectUri, state);
-
-  // Start callback server before opening browser
   console.error('Starting OAuth flow...');
-  console.error(`Callback URL: ${redirectUri}`);
 
-  const callbackPromise = startCallbackServer(state);
+  if (options.browser === false) {
+    redirectUri = getCallbackUrl(options.port);
+    const authUrl = buildAuthUrl(clientId, redirectUri, state, pkce.code_challenge);
 
-  // Open browser
-  console.error('Opening browser for authorization...');
-  await open(authUrl);
+    console.error('Open this URL in any browser and approve access:');
+    console.error(`\n  ${authUrl}\n`);
+    console.error(`You will be redirected to ${redirectUri} (the page may not load).`);
 
-  // Wait for callback
-  console.error('Waiting for authorization...');
-  const { code } = await callbackPromise;
+    // Closed stdin counts as an empty answer
+    const input = await prompt('Paste the full redirect URL (or just the code): ').catch(() => '');
+    code = parseAuthorizationResponse(input, state);
+  } else {
+    // Start callback server before opening browser
+    const server = await startCallbackServer(state, options.port);
+    redirectUri = getCallbackUrl(server.port);
+    const authUrl = buildAuthUrl(clientId, redirectUri, state, pkce.code_challenge);
+
+    console.error(`Callback URL: ${redirectUri}`);
+
+    // Open browser
+    console.error('Opening browser for authorization...');
+    console.error(`If it doesn't open, visit: ${authUrl}`);
+
+    try {
+      await open(authUrl);
+    } catch (error) {
+      // Nobody will wait for the callback: stop the server and drop its result
+      server.close();
+      server.result.catch(() => undefined);
+
+      const message = error instanceof Error ? error.message : String(error);
+      throw new AuthError(
+        `Could not open a browser: ${message}`,
+        `run: ${getLoginCommand()} --no-browser`
+      );
+    }
+
+    // Wait for callback
+    console.error('Waiting for authorization...');
+    ({ code } = await server.result);
+  }
 
   // Exchange code for tokens
   console.error('Exchanging code for tokens...');
-  const tokens = await exchangeCode(code, clientId, clientSecret, redirectUri);
+  const tokens = await exchangeCode(code, clientId, clientSecret, redirectUri, pkce.code_verifier);
 
   // Save tokens (encrypted)
   saveTokens(tokens);
 
-  console.error('✅ Successfully authenticated!');
+  console.error(`✅ Successfully authenticated! (profile: ${getActiveProfile()})`);
   console.error(`Tokens stored in: ${getTokenDir()}`);
 }
 
 /**
- * Log out (delete stored tokens)
+ * Revoke access with WHOOP. Tokens WHOOP already rejects count as revoked.
  */
-export function logout(): void {
+async function revokeTokens(): Promise<void> {
+  try {
+    await revokeAccess();
+  } catch (error) {
+    if (error instanceof WhoopError && error.httpStatus === 401) {
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    throw new WhoopError(
+      `Could not revoke access with WHOOP: ${message}\n` +
+        'Tokens were kept. Use --local-only to delete them without revoking',
+      error instanceof WhoopError ? error.exitCode : ExitCode.GENERAL_ERROR
+    );
+  }
+}
+
+/**
+ * Log out: revoke access with WHOOP, then delete stored tokens
+ */
+export async function logout(options: LogoutOptions = {}): Promise<void> {
   if (!hasTokens()) {
     console.error('No stored tokens found.');
     return;
   }
 
+  if (!options.localOnly) {
+    console.error('Revoking access with WHOOP...');
+    await revokeTokens();
+  }
+
   deleteTokens();
-  console.error('✅ Logged out. Tokens deleted.');
+  console.error(`✅ Logged out of profile ${getActiveProfile()}. Tokens deleted.`);
 }
 
 /**
- * Get authentication status
+ * Get authentication status without printing anything
  */
-export function status(): AuthStatus {
-  const tokens = loadTokens();
+export function getAuthStatus(): AuthStatus {
+  const profile = getActiveProfile();
+  const tokenDir = getTokenDir();
+
+  let tokens: ReturnType<typeof loadTokens>;
+  try {
+    tokens = loadTokens();
+  } catch (error) {
+    // Passphrase-protected tokens without the right passphrase
+    if (!(error instanceof AuthError)) throw error;
+    return {
+      authenticated: false,
+      profile,
+      token_dir: tokenDir,
+      reason: 'tokens are locked: set WHOOP_PASSPHRASE to the passphrase chosen at login',
+    };
+  }
 
   if (!tokens) {
-    console.error('❌ Not authenticated');
-    console.error('Run: whoop auth login');
-    return { authenticated: false };
+    return { authenticated: false, profile, token_dir: tokenDir };
   }
 
-  const expired = isTokenExpired(tokens);
-  const expiresAt = new Date(tokens.expires_at).toISOString();
+  const scopes = tokens.scope.split(' ').filter(Boolean);
 
-  if (expired) {
+  return {
+    authenticated: true,
+    profile,
+    expires_at: new Date(tokens.expires_at).toISOString(),
+    expired: isTokenExpired(tokens),
+    seconds_until_expiry: Math.max(Math.floor((tokens.expires_at - Date.now()) / 1000), 0),
+    scopes,
+    missing_scopes: SCOPES.filter((scope) => !scopes.includes(scope)),
+    has_refresh_token: Boolean(tokens.refresh_token),
+    token_dir: tokenDir,
+  };
+}
+
+/**
+ * Get authentication status, printing it to stderr
+ */
+export function status(): AuthStatus {
+  const result = getAuthStatus();
+
+  if (!result.authenticated) {
+    console.error(`❌ Not authenticated (profile: ${result.profile})`);
+    if (result.reason) {
+      console.error(`Reason: ${result.reason}`);
+    } else {
+      console.error(`Run: ${getLoginCommand()}`);
+    }
+    return result;
+  }
+
+  if (result.expired) {
     console.error('⚠️  Access token expired (will auto-refresh on next request)');
   } else {
     console.error('✅ Authenticated');
   }
 
-  console.error(`Expires: ${expiresAt}`);
-  console.error(`Scopes: ${tokens.scope}`);
-  console.error(`Token dir: ${getTokenDir()}`);
+  console.error(`Profile: ${result.profile}`);
+  console.error(`Expires: ${result.expires_at}`);
+  console.error(`Scopes: ${result.scopes?.join(' ')}`);
+  if (result.missing_scopes?.length) {
+    console.error(`Missing scopes: ${result.missing_scopes.join(' ')} (run: ${getLoginCommand()})`);
+  }
+  if (!result.has_refresh_token) {
+    console.error('⚠️  No refresh token: log in again when the access token expires');
+  }
+  console.error(`Token dir: ${result.token_dir}`);
 
-  return {
-    authenticated: true,
-    expires_at: expiresAt,
-    scopes: tokens.scope.split(' '),
-  };
+  return result;
 }
 
 /**
  * Manually refresh the access token
  */
 export async function refresh(): Promise<void> {
+  await unlockTokens();
   const tokens = loadTokens();
 
   if (!tokens) {
-    throw new AuthError('Not authenticated. Run: whoop auth login');
+    throw new AuthError(
+      `Not authenticated. Run: ${getLoginCommand()}`,
+      `run: ${getLoginCommand()}`
+    );
   }
 
   console.error('Refreshing access token...');
-  await refreshAccessToken(tokens);
+  await refreshStoredTokens(true);
   console.error('✅ Token refreshed successfully.');
 }
+
+/**
+ * Export the active profile's tokens, encrypted with a passphrase, to a file if given.
+ * Expired access tokens are refreshed first, so a dead refresh token is never exported.
+ */
+export async function exportTokens(bundlePassphrase: string, out?: string): Promise<TokenBundle> {
+  await unlockTokens();
+  let tokens = loadTokens();
+
+  if (!tokens) {
+    throw new AuthError(
+      `Not authenticated. Run: ${getLoginCommand()}`,
+      `run: ${getLoginCommand()}`
+    );
+  }
+
+  if (isTokenExpired(tokens)) {
+    try {
+      tokens = await refreshStoredTokens();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new AuthError(
+        `Refusing to export: the refresh token no longer works (${message}). Run: ${getLoginCommand()}`,
+        `run: ${getLoginCommand()}`
+      );
+    }
+  }
+
+  const bundle = createTokenBundle(tokens, bundlePassphrase);
+
+  if (out !== undefined) {
+    writeFileSync(out, JSON.stringify(bundle, null, 2), { mode: 0o600 });
+  }
+
+  console.error(`Exported tokens for profile ${getActiveProfile()}${out ? ` to ${out}` : ''}`);
+  console.error(`Scopes: ${bundle.scopes.join(' ')}`);
+  console.error(
+    'Note: both machines now share one refresh token. Once either refreshes, the other must log in again.'
+  );
+
+  return bundle;
+}
+
+/**
+ * Read a token bundle file
+ */
+export function readTokenBundle(file: string): unknown {
+  if (!existsSync(file)) {
+    throw new WhoopError(`Token bundle not found: ${file}`, ExitCode.NOT_FOUND);
+  }
+
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')) as unknown;
+  } catch {
+    throw new WhoopError(`Not a whoop-cli token bundle: ${file}`, ExitCode.INVALID_INPUT);
+  }
+}
+
+/**
+ * Import tokens from a bundle into the active profile (re-encrypted for this machine)
+ */
+export function importTokens(bundle: unknown, bundlePassphrase: string): void {
+  const tokens = openTokenBundle(bundle, bundlePassphrase);
+
+  saveTokens(tokens);
+
+  console.error(`✅ Imported tokens into profile ${getActiveProfile()}`);
+  console.error(`Scopes: ${tokens.scope}`);
+  console.error(`Tokens stored in: ${getTokenDir()}`);
+}
@@ -0,0 +1,124 @@
+/**
+ * Named account profiles
+ *
+ * Each profile has its own encrypted tokens, local store and wake history.
+ * The "default" profile lives directly in the token directory, where a
+ * single account has always been stored; named profiles live under
+ * `profiles/<name>/`.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { WhoopError, ExitCode } from '../utils/errors.js';
+
+const BASE_DIR = process.env['WHOOP_TOKEN_PATH'] ?? join(homedir(), '.whoop-cli');
+const PROFILES_DIR = join(BASE_DIR, 'profiles');
+const CURRENT_PROFILE_FILE = join(BASE_DIR, 'current-profile');
+
+export const DEFAULT_PROFILE = 'default';
+
+const PROFILE_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+// Set by --profile; takes precedence over WHOOP_PROFILE and `whoop auth use`
+let selectedProfile: string | undefined;
+
+/**
+ * Check that a profile name is safe to use as a directory name
+ */
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME.test(name);
+}
+
+function assertProfileName(name: string): void {
+  if (!isValidProfileName(name)) {
+    throw new WhoopError(
+      `Invalid profile name: ${name}. Use letters, numbers, - and _`,
+      ExitCode.INVALID_INPUT
+    );
+  }
+}
+
+/**
+ * Select the profile for this process (undefined falls back to
+ * WHOOP_PROFILE, then the profile chosen with `whoop auth use`)
+ */
+export function setActiveProfile(name?: string): void {
+  if (name !== undefined) {
+    assertProfileName(name);
+  }
+  selectedProfile = name;
+}
+
+/**
+ * Read the profile saved by `whoop auth use`
+ */
+function readCurrentProfile(): string | undefined {
+  if (!existsSync(CURRENT_PROFILE_FILE)) {
+    return undefined;
+  }
+
+  const name = readFileSync(CURRENT_PROFILE_FILE, 'utf8').trim();
+  return isValidProfileName(name) ? name : undefined;
+}
+
+/**
+ * Get the profile in effect: --profile, then WHOOP_PROFILE, then `whoop auth use`
+ */
+export function getActiveProfile(): string {
+  const name = selectedProfile ?? process.env['WHOOP_PROFILE'] ?? readCurrentProfile();
+
+  if (name === undefined) {
+    return DEFAULT_PROFILE;
+  }
+
+  assertProfileName(name);
+  return name;
+}
+
+/**
+ * Save the profile used when no --profile is given
+ */
+export function saveCurrentProfile(name: string): void {
+  assertProfileName(name);
+
+  if (!existsSync(BASE_DIR)) {
+    mkdirSync(BASE_DIR, { recursive: true, mode: 0o700 });
+  }
+
+  writeFileSync(CURRENT_PROFILE_FILE, `${name}\n`, { mode: 0o600 });
+}
+
+/**
+ * Get the login command for the active profile (for error hints)
+ */
+export function getLoginCommand(): string {
+  const profile = getActiveProfile();
+  return profile === DEFAULT_PROFILE ? 'whoop auth login' : `whoop auth login --profile ${profile}`;
+}
+
+/**
+ * Get the directory holding a profile's files
+ */
+export function getProfileDir(name: string = getActiveProfile()): string {
+  if (name === DEFAULT_PROFILE) {
+    return BASE_DIR;
+  }
+
+  assertProfileName(name);
+  return join(PROFILES_DIR, name);
+}
+
+/**
+ * Get the directory containing all profiles
+ */
+export function getBaseDir(): string {
+  return BASE_DIR;
+}
+
+/**
+ * Get the directory containing named (non-default) profiles
+ */
+export function getProfilesDir(): string {
+  return PROFILES_DIR;
+}
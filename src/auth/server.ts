@@ -3,27 +3,48 @@
  */
 
 import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { getSetting } from '../utils/config.js';
 
 const DEFAULT_PORT = 3000;
 const TIMEOUT_MS = 120_000; // 2 minutes
 
-interface CallbackResult {
+export interface CallbackResult {
   code: string;
   state: string;
 }
 
+export interface CallbackServer {
+  /** Port the server is listening on (resolved when started with port 0) */
+  port: number;
+  /** Resolves with the authorization code once the browser is redirected back */
+  result: Promise<CallbackResult>;
+  close: () => void;
+}
+
 /**
- * Start a temporary HTTP server to receive the OAuth callback
+ * Start a temporary HTTP server to receive the OAuth callback.
+ * Pass port 0 to listen on any free port; the redirect URI is then
+ * `getCallbackUrl(server.port)`.
  */
 export function startCallbackServer(
   expectedState: string,
   port: number = DEFAULT_PORT
-): Promise<CallbackResult> {
-  return new Promise((resolve, reject) => {
+): Promise<CallbackServer> {
+  let resolveResult: (result: CallbackResult) => void = () => undefined;
+  let rejectResult: (error: Error) => void = () => undefined;
+  const result = new Promise<CallbackResult>((resolve, reject) => {
+    resolveResult = resolve;
+    rejectResult = reject;
+  });
+
+  return new Promise((resolveServer, rejectServer) => {
+    let listening = false;
+    let actualPort = port;
+
     const server = createServer((req: IncomingMessage, res: ServerResponse) => {
-      const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+      const url = new URL(req.url ?? '/', `http://localhost:${actualPort}`);
 
-      if (url.pathname !== '/callback') {
+      if (url.pathname !== getCallbackPath(actualPort)) {
         res.writeHead(404);
         res.end('Not Found');
         return;
@@ -45,7 +66,7 @@ export function startCallbackServer(
           </html>
         `);
         server.close();
-        reject(new Error(`OAuth error: ${error}`));
+        rejectResult(new Error(`OAuth error: ${error}`));
         return;
       }
 
@@ -53,7 +74,7 @@ export function startCallbackServer(
         res.writeHead(400);
         res.end('Missing code or state');
         server.close();
-        reject(new Error('Missing code or state in callback'));
+        rejectResult(new Error('Missing code or state in callback'));
         return;
       }
 
@@ -61,7 +82,7 @@ export function startCallbackServer(
         res.writeHead(400);
         res.end('Invalid state');
         server.close();
-        reject(new Error('State mismatch - possible CSRF attack'));
+        rejectResult(new Error('State mismatch - possible CSRF attack'));
         return;
       }
 
@@ -77,26 +98,45 @@ export function startCallbackServer(
       `);
 
       server.close();
-      resolve({ code, state });
+      resolveResult({ code, state });
     });
 
     // Timeout handler
     const timeout = setTimeout(() => {
       server.close();
-      reject(new Error('OAuth callback timed out'));
+      rejectResult(new Error('OAuth callback timed out'));
     }, TIMEOUT_MS);
 
     server.on('close', () => {
       clearTimeout(timeout);
     });
 
-    server.on('error', (err) => {
+    server.on('error', (err: NodeJS.ErrnoException) => {
       clearTimeout(timeout);
-      reject(err);
+
+      if (listening) {
+        rejectResult(err);
+      } else if (err.code === 'EADDRINUSE') {
+        rejectServer(
+          new Error(`Port ${port} is already in use. Use --port <n>, or --port 0 for any free port`)
+        );
+      } else {
+        rejectServer(err);
+      }
     });
 
     server.listen(port, () => {
-      // Server started, waiting for callback
+      listening = true;
+      const address = server.address();
+      actualPort = typeof address === 'object' && address ? address.port : port;
+
+      resolveServer({
+        port: actualPort,
+        result,
+        close: () => {
+          server.close();
+        },
+      });
     });
   });
 }
@@ -105,5 +145,12 @@ export function startCallbackServer(
  * Get the callback URL for OAuth
  */
 export function getCallbackUrl(port: number = DEFAULT_PORT): string {
-  return process.env['WHOOP_REDIRECT_URI'] ?? `http://localhost:${port}/callback`;
+  return getSetting('redirect_uri') ?? `http://localhost:${port}/callback`;
+}
+
+/**
+ * Get the path the callback server answers on (the path of the callback URL)
+ */
+function getCallbackPath(port: number): string {
+  return new URL(getCallbackUrl(port)).pathname;
 }
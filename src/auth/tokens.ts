@@ -2,55 +2,300 @@
  * Token storage and management
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync, rmSync } from 'node:fs';
-import { homedir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import {
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  rmSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  linkSync,
+  utimesSync,
+} from 'node:fs';
 import { join } from 'node:path';
-import { encrypt, decrypt, type EncryptedData } from '../utils/crypto.js';
-import { AuthError } from '../utils/errors.js';
+import { encrypt, decrypt, isPassphraseProtected, type EncryptedData } from '../utils/crypto.js';
+import { AuthError, WhoopError, ExitCode } from '../utils/errors.js';
+import { canPrompt, promptSecret } from '../utils/prompt.js';
+import { getSetting } from '../utils/config.js';
+import { getRequestTimeout, withTimeout } from '../api/timeout.js';
+import {
+  DEFAULT_PROFILE,
+  getLoginCommand,
+  getProfileDir,
+  getProfilesDir,
+  isValidProfileName,
+  saveCurrentProfile,
+} from './profiles.js';
 import type { OAuthTokens } from '../types/whoop.js';
 
-const TOKEN_DIR = process.env['WHOOP_TOKEN_PATH'] ?? join(homedir(), '.whoop-cli');
-const TOKEN_FILE = join(TOKEN_DIR, 'tokens.json');
+const TOKEN_FILE_NAME = 'tokens.json';
+const LOCK_FILE_NAME = 'tokens.lock';
 
 // Buffer time before expiration (5 minutes)
 const EXPIRY_BUFFER_MS = 5 * 60 * 1000;
 
+// How long to wait for another process's refresh, and when its lock counts as abandoned
+const LOCK_TIMEOUT_MS = 30 * 1000;
+const LOCK_STALE_MS = 60 * 1000;
+const LOCK_POLL_MS = 100;
+// The holder touches its lock this often, so a live holder's lock never looks stale
+const LOCK_HEARTBEAT_MS = 15 * 1000;
+
+// Set by `whoop auth login --passphrase` or an unlock prompt; falls back to WHOOP_PASSPHRASE
+let passphrase: string | undefined;
+
+/**
+ * Set the passphrase used to encrypt and decrypt tokens (undefined: WHOOP_PASSPHRASE)
+ */
+export function setPassphrase(value?: string): void {
+  passphrase = value;
+}
+
+/**
+ * Get the passphrase in effect, if any
+ */
+function getPassphrase(): string | undefined {
+  if (passphrase !== undefined) {
+    return passphrase;
+  }
+
+  // An empty WHOOP_PASSPHRASE counts as unset
+  const env = process.env['WHOOP_PASSPHRASE'];
+  return env === undefined || env === '' ? undefined : env;
+}
+
+/**
+ * Get the token file for a profile (default: the active profile)
+ */
+function getTokenFile(profile?: string): string {
+  return join(getProfileDir(profile), TOKEN_FILE_NAME);
+}
+
 /**
  * Ensure the token directory exists
  */
 function ensureTokenDir(): void {
-  if (!existsSync(TOKEN_DIR)) {
-    mkdirSync(TOKEN_DIR, { recursive: true, mode: 0o700 });
+  const dir = getTokenDir();
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+}
+
+// ============================================================================
+// Locking
+// ============================================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Check if a lock was left behind by a process that died or hung
+ */
+function isStaleLock(file: string): boolean {
+  try {
+    if (Date.now() - statSync(file).mtimeMs > LOCK_STALE_MS) {
+      return true;
+    }
+
+    const pid = Number(readFileSync(file, 'utf8'));
+    if (!Number.isInteger(pid) || pid <= 0) {
+      return false;
+    }
+
+    // Signal 0 only checks that the process exists
+    process.kill(pid, 0);
+    return false;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'ESRCH';
   }
 }
 
 /**
- * Save tokens (encrypted) to disk
+ * Take over a stale lock. Renaming is atomic, so when several waiters judge
+ * the lock stale only one of them gets the file. Another waiter may already
+ * have replaced the stale lock with its own, so the renamed file is checked
+ * again, and a live lock is put back.
+ */
+export function takeOverStaleLock(file: string): void {
+  const claimed = `${file}.${process.pid}.${randomUUID()}.stale`;
+
+  try {
+    renameSync(file, claimed);
+  } catch (error) {
+    // Another waiter took it over first
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+
+  try {
+    if (!isStaleLock(claimed)) {
+      // Linking fails if a new lock was created meanwhile, which then stands
+      linkSync(claimed, file);
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+  } finally {
+    rmSync(claimed, { force: true });
+  }
+}
+
+interface TokenLock {
+  file: string;
+  /** Inode of the lock file we created, to release only our own lock */
+  ino: number;
+}
+
+/**
+ * Acquire the token lock for the active profile, waiting for other processes
+ */
+async function acquireTokenLock(): Promise<TokenLock> {
+  ensureTokenDir();
+
+  const file = join(getTokenDir(), LOCK_FILE_NAME);
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      writeFileSync(file, String(process.pid), { flag: 'wx', mode: 0o600 });
+      return { file, ino: statSync(file).ino };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    if (isStaleLock(file)) {
+      takeOverStaleLock(file);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new WhoopError(
+        `Timed out waiting for another whoop process to refresh tokens. ` +
+          `If none is running, delete ${file}`,
+        ExitCode.GENERAL_ERROR
+      );
+    }
+
+    await sleep(LOCK_POLL_MS);
+  }
+}
+
+/**
+ * Run a function while holding the token lock, so only one process
+ * loads, refreshes and saves tokens at a time
+ */
+export async function withTokenLock<T>(fn: () => Promise<T>): Promise<T> {
+  const lock = await acquireTokenLock();
+  const heartbeat = setInterval(() => {
+    try {
+      const now = new Date();
+      utimesSync(lock.file, now, now);
+    } catch {
+      // The lock was taken over; releasing it is then a no-op
+    }
+  }, LOCK_HEARTBEAT_MS);
+  heartbeat.unref();
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    releaseTokenLock(lock);
+  }
+}
+
+/**
+ * Release the token lock, unless it was taken over and replaced meanwhile
+ */
+function releaseTokenLock(lock: TokenLock): void {
+  try {
+    if (statSync(lock.file).ino === lock.ino) {
+      rmSync(lock.file, { force: true });
+    }
+  } catch {
+    // Already gone
+  }
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Save tokens (encrypted) to disk.
+ * Always writes the current format, which migrates version 1 files.
  */
 export function saveTokens(tokens: OAuthTokens): void {
   ensureTokenDir();
 
   const json = JSON.stringify(tokens);
-  const encrypted = encrypt(json);
+  const encrypted = encrypt(json, getPassphrase());
 
-  writeFileSync(TOKEN_FILE, JSON.stringify(encrypted, null, 2), {
+  // Write then rename, so readers never see a partially written file
+  const file = getTokenFile();
+  const tempFile = `${file}.${process.pid}.tmp`;
+  writeFileSync(tempFile, JSON.stringify(encrypted, null, 2), {
     mode: 0o600,
   });
+  renameSync(tempFile, file);
+}
+
+/**
+ * Read the encrypted token file
+ */
+function readTokenFile(file: string): EncryptedData | null {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')) as EncryptedData;
+  } catch {
+    return null;
+  }
 }
 
 /**
  * Load tokens from disk (decrypts automatically)
  */
 export function loadTokens(): OAuthTokens | null {
-  if (!existsSync(TOKEN_FILE)) {
+  const file = getTokenFile();
+
+  if (!existsSync(file)) {
     return null;
   }
 
+  const encrypted = readTokenFile(file);
+  if (!encrypted) {
+    return null;
+  }
+
+  if (isPassphraseProtected(encrypted)) {
+    const secret = getPassphrase();
+    if (secret === undefined) {
+      throw new AuthError(
+        'Tokens are protected by a passphrase. Set WHOOP_PASSPHRASE or run interactively',
+        'set: WHOOP_PASSPHRASE'
+      );
+    }
+
+    try {
+      return JSON.parse(decrypt(encrypted, secret)) as OAuthTokens;
+    } catch {
+      throw new AuthError(
+        'Could not decrypt tokens: wrong passphrase',
+        'set: WHOOP_PASSPHRASE to the passphrase chosen at login'
+      );
+    }
+  }
+
   try {
-    const content = readFileSync(TOKEN_FILE, 'utf8');
-    const encrypted = JSON.parse(content) as EncryptedData;
-    const decrypted = decrypt(encrypted);
-    return JSON.parse(decrypted) as OAuthTokens;
+    return JSON.parse(decrypt(encrypted)) as OAuthTokens;
   } catch {
     // If decryption fails, tokens were encrypted on a different machine
     // or the file is corrupted
@@ -58,20 +303,41 @@ export function loadTokens(): OAuthTokens | null {
   }
 }
 
+/**
+ * Check if the stored tokens need a passphrase to decrypt
+ */
+export function needsPassphrase(): boolean {
+  const file = getTokenFile();
+  const encrypted = existsSync(file) ? readTokenFile(file) : null;
+  return encrypted !== null && isPassphraseProtected(encrypted);
+}
+
+/**
+ * Prompt for the token passphrase when one is needed and none is set
+ */
+export async function unlockTokens(): Promise<void> {
+  if (getPassphrase() !== undefined || !canPrompt() || !needsPassphrase()) {
+    return;
+  }
+
+  passphrase = await promptSecret('Passphrase: ');
+}
+
 /**
  * Delete stored tokens
  */
 export function deleteTokens(): void {
-  if (existsSync(TOKEN_FILE)) {
-    rmSync(TOKEN_FILE);
+  const file = getTokenFile();
+  if (existsSync(file)) {
+    rmSync(file);
   }
 }
 
 /**
- * Check if tokens exist
+ * Check if tokens exist (for the active profile, or a named one)
  */
-export function hasTokens(): boolean {
-  return existsSync(TOKEN_FILE);
+export function hasTokens(profile?: string): boolean {
+  return existsSync(getTokenFile(profile));
 }
 
 /**
@@ -83,42 +349,57 @@ export function isTokenExpired(tokens: OAuthTokens): boolean {
 }
 
 /**
- * Refresh access token using refresh token
+ * Refresh access token using refresh token. The request is subject to the
+ * request timeout (see setRequestTimeout) and aborts with the signal.
  */
-export async function refreshAccessToken(tokens: OAuthTokens): Promise<OAuthTokens> {
-  const clientId = process.env['WHOOP_CLIENT_ID'];
-  const clientSecret = process.env['WHOOP_CLIENT_SECRET'];
+export async function refreshAccessToken(
+  tokens: OAuthTokens,
+  signal?: AbortSignal
+): Promise<OAuthTokens> {
+  const clientId = getSetting('client_id');
+  const clientSecret = getSetting('client_secret');
 
   if (!clientId || !clientSecret) {
-    throw new AuthError('WHOOP_CLIENT_ID and WHOOP_CLIENT_SECRET must be set');
+    throw new AuthError(
+      'WHOOP_CLIENT_ID and WHOOP_CLIENT_SECRET must be set (or: whoop config set client_id)',
+      'run: whoop config set client_id <id>'
+    );
   }
 
-  const response = await fetch('https://api.prod.whoop.com/oauth/oauth2/token', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      grant_type: 'refresh_token',
-      refresh_token: tokens.refresh_token,
-      client_id: clientId,
-      client_secret: clientSecret,
-      scope: 'offline',
-    }),
-  });
+  // The timeout also covers reading the body
+  const data = await withTimeout(
+    async (attemptSignal) => {
+      const response = await fetch('https://api.prod.whoop.com/oauth/oauth2/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: tokens.refresh_token,
+          client_id: clientId,
+          client_secret: clientSecret,
+          scope: 'offline',
+        }),
+        signal: attemptSignal,
+      });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new AuthError(`Failed to refresh token: ${error}`);
-  }
+      if (!response.ok) {
+        const error = await response.text();
+        throw new AuthError(`Failed to refresh token: ${error}`, `run: ${getLoginCommand()}`);
+      }
 
-  const data = (await response.json()) as {
-    access_token: string;
-    refresh_token: string;
-    expires_in: number;
-    token_type: string;
-    scope: string;
-  };
+      return (await response.json()) as {
+        access_token: string;
+        refresh_token: string;
+        expires_in: number;
+        token_type: string;
+        scope: string;
+      };
+    },
+    getRequestTimeout(),
+    signal
+  );
 
   const newTokens: OAuthTokens = {
     access_token: data.access_token,
@@ -133,25 +414,153 @@ export async function refreshAccessToken(tokens: OAuthTokens): Promise<OAuthToke
 }
 
 /**
- * Get valid tokens, refreshing if necessary
+ * Get valid tokens, refreshing if necessary (the signal cancels a refresh)
  */
-export async function getValidTokens(): Promise<OAuthTokens> {
+export async function getValidTokens(signal?: AbortSignal): Promise<OAuthTokens> {
+  await unlockTokens();
   const tokens = loadTokens();
 
   if (!tokens) {
-    throw new AuthError('Not authenticated. Run: whoop auth login');
+    throw new AuthError(
+      `Not authenticated. Run: ${getLoginCommand()}`,
+      `run: ${getLoginCommand()}`
+    );
   }
 
   if (isTokenExpired(tokens)) {
-    return refreshAccessToken(tokens);
+    return refreshStoredTokens(false, signal);
   }
 
   return tokens;
 }
 
 /**
- * Get token directory path (for display purposes)
+ * Refresh the stored tokens under the token lock.
+ * WHOOP rotates refresh tokens, so the file is re-read after acquiring the
+ * lock: if another process refreshed meanwhile, its tokens are reused.
+ */
+export async function refreshStoredTokens(
+  force = false,
+  signal?: AbortSignal
+): Promise<OAuthTokens> {
+  return withTokenLock(async () => {
+    const tokens = loadTokens();
+
+    if (!tokens) {
+      throw new AuthError(
+        `Not authenticated. Run: ${getLoginCommand()}`,
+        `run: ${getLoginCommand()}`
+      );
+    }
+
+    if (!force && !isTokenExpired(tokens)) {
+      return tokens;
+    }
+
+    return refreshAccessToken(tokens, signal);
+  });
+}
+
+/**
+ * Get the active profile's token directory
  */
 export function getTokenDir(): string {
-  return TOKEN_DIR;
+  return getProfileDir();
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+/**
+ * List profiles that have stored tokens (default first)
+ */
+export function listProfiles(): string[] {
+  const dir = getProfilesDir();
+  const named = existsSync(dir)
+    ? readdirSync(dir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory() && isValidProfileName(entry.name))
+        .map((entry) => entry.name)
+        .filter((name) => name !== DEFAULT_PROFILE && hasTokens(name))
+        .sort()
+    : [];
+
+  return hasTokens(DEFAULT_PROFILE) ? [DEFAULT_PROFILE, ...named] : named;
+}
+
+/**
+ * Make a profile the one used when no --profile is given
+ */
+export function useProfile(name: string): void {
+  if (!hasTokens(name)) {
+    throw new AuthError(
+      `No tokens for profile "${name}". Run: whoop auth login --profile ${name}`,
+      `run: whoop auth login --profile ${name}`
+    );
+  }
+
+  saveCurrentProfile(name);
+}
+
+// ============================================================================
+// Export / Import
+// ============================================================================
+
+const BUNDLE_TYPE = 'whoop-cli-tokens';
+const BUNDLE_VERSION = 1;
+
+/**
+ * Tokens encrypted with a passphrase, for moving them to another machine
+ */
+export interface TokenBundle {
+  type: typeof BUNDLE_TYPE;
+  version: number;
+  exported_at: string;
+  /** Scopes granted to the tokens (readable without the passphrase) */
+  scopes: string[];
+  tokens: EncryptedData;
+}
+
+/**
+ * Encrypt tokens under a passphrase
+ */
+export function createTokenBundle(tokens: OAuthTokens, bundlePassphrase: string): TokenBundle {
+  return {
+    type: BUNDLE_TYPE,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    scopes: tokens.scope.split(' ').filter(Boolean),
+    tokens: encrypt(JSON.stringify(tokens), bundlePassphrase),
+  };
+}
+
+/**
+ * Decrypt tokens from a bundle
+ */
+export function openTokenBundle(bundle: unknown, bundlePassphrase: string): OAuthTokens {
+  const candidate = bundle as Partial<TokenBundle> | null;
+
+  if (candidate?.type !== BUNDLE_TYPE || candidate.tokens === undefined) {
+    throw new WhoopError('Not a whoop-cli token bundle', ExitCode.INVALID_INPUT);
+  }
+
+  if (candidate.version !== BUNDLE_VERSION) {
+    throw new WhoopError(
+      `Unsupported token bundle version: ${String(candidate.version)}`,
+      ExitCode.INVALID_INPUT
+    );
+  }
+
+  let tokens: OAuthTokens;
+  try {
+    tokens = JSON.parse(decrypt(candidate.tokens, bundlePassphrase)) as OAuthTokens;
+  } catch {
+    throw new AuthError('Could not decrypt token bundle: wrong passphrase');
+  }
+
+  if (!tokens.access_token || !tokens.refresh_token) {
+    throw new WhoopError('Token bundle does not contain tokens', ExitCode.INVALID_INPUT);
+  }
+
+  return tokens;
 }
@@ -3,69 +3,704 @@
  * WHOOP CLI - Command Line Interface
  */
 
-import { Command } from 'commander';
-import { login, logout, status as authStatus, refresh as authRefresh } from './auth/oauth.js';
-import { fetchData } from './api/client.js';
-import { getWhoopDay, validateISODate } from './utils/date.js';
-import { handleError, WhoopError, ExitCode } from './utils/errors.js';
-import { formatPretty, formatSummary } from './utils/format.js';
+import { setTimeout as delay } from 'node:timers/promises';
+import { Command, Option } from 'commander';
+import {
+  login,
+  logout,
+  status as authStatus,
+  getAuthStatus,
+  refresh as authRefresh,
+  exportTokens,
+  importTokens,
+  readTokenBundle,
+} from './auth/oauth.js';
+import { listProfiles, useProfile, setPassphrase, unlockTokens } from './auth/tokens.js';
+import { getActiveProfile, setActiveProfile } from './auth/profiles.js';
+import {
+  fetchData,
+  setRetryPolicy,
+  setCacheOptions,
+  setSchemaOptions,
+  setRequestTimeout,
+  getSleepById,
+  getWorkoutById,
+  getCycleById,
+  getRecoveryForCycle,
+  getSleepForCycle,
+} from './api/client.js';
+import { sync } from './api/sync.js';
+import { getCacheStats, clearCache } from './api/cache.js';
+import { formatSchemaDrift, type SchemaDrift } from './api/schema.js';
+import { isRetryable, type RetryEvent } from './api/retry.js';
+import {
+  addDays,
+  getRecordDay,
+  getRecordMinutes,
+  getWhoopDay,
+  nowISO,
+  parseDeadline,
+  parseInterval,
+  resolveDate,
+  resolveDateWindow,
+  setDayCutoffHour,
+  setTimeZone,
+} from './utils/date.js';
+import {
+  handleError,
+  setErrorFormat,
+  getErrorFormat,
+  WhoopError,
+  RateLimitError,
+  TimeoutError,
+  ExitCode,
+  ERROR_FORMATS,
+  type ErrorFormat,
+} from './utils/errors.js';
+import { canPrompt, promptSecret } from './utils/prompt.js';
+import {
+  formatSummary,
+  formatOutput,
+  setUnits,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+} from './utils/format.js';
+import {
+  getSetting,
+  resolveSetting,
+  listSettings,
+  setConfigValue,
+  unsetConfigValue,
+  isConfigKey,
+  isSecretSetting,
+  getConfigFile,
+  SETTINGS,
+  CONFIG_KEYS,
+  MAX_PAGE_SIZE,
+} from './utils/config.js';
+import { formatNdjsonRecord } from './utils/flatten.js';
+import { calculateTrends, formatTrends, DEFAULT_WINDOWS } from './utils/trends.js';
 import {
   checkWake,
+  explainWake,
+  backtestWake,
+  formatBacktest,
+  ROLLING_WINDOW,
+  buildWakeModel,
   formatWakeResult,
+  formatWakeExplanation,
+  formatMinutes,
   loadHistory,
   addToHistory,
   parseSleepRecord,
+  type WakeModel,
+  type WakeCheckResult,
 } from './utils/wake.js';
-import type { DataType, CombinedOutput } from './types/whoop.js';
+import type {
+  DataType,
+  CombinedOutput,
+  DateWindow,
+  FetchOptions,
+  WhoopSleep,
+} from './types/whoop.js';
 
 const program = new Command();
 
+interface RequestOptions {
+  verbose?: boolean;
+  maxAttempts?: string;
+  timeout?: string;
+  tz?: string;
+  cache?: boolean;
+  refresh?: boolean;
+  strictSchema?: boolean;
+  // A bare --profile on the default command means "include profile data"
+  profile?: string | boolean;
+}
+
+interface DateOptions {
+  date?: string;
+  from?: string;
+  to?: string;
+  days?: string;
+}
+
+interface DataOptions extends DateOptions {
+  limit?: string;
+  all?: boolean;
+  pretty?: boolean;
+  format?: string;
+  offline?: boolean;
+}
+
+/**
+ * Warn on stderr about data types that failed in a partial result
+ */
+function warnErrors(data: CombinedOutput): void {
+  for (const error of data.errors ?? []) {
+    const status = error.http_status ? ` (HTTP ${error.http_status})` : '';
+    console.error(`Warning: ${error.type} failed${status}: ${error.message}`);
+  }
+}
+
+/**
+ * Resolve --format / --pretty into an output format, falling back to the configured format
+ */
+function getFormat(options: { format?: string; pretty?: boolean }): OutputFormat {
+  const format = options.format ?? (options.pretty ? 'pretty' : (getSetting('format') ?? 'json'));
+
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new WhoopError(
+      `Invalid format: ${format}. Use one of: ${OUTPUT_FORMATS.join(', ')}`,
+      ExitCode.INVALID_INPUT
+    );
+  }
+
+  if (options.pretty && format !== 'pretty') {
+    throw new WhoopError('--pretty cannot be combined with --format', ExitCode.INVALID_INPUT);
+  }
+
+  return format as OutputFormat;
+}
+
+/**
+ * Write records to stdout as NDJSON, one line each
+ */
+function writeNdjson(type: DataType, records: object[]): void {
+  const profile = getActiveProfile();
+  for (const record of records) {
+    // eslint-disable-next-line no-console
+    console.log(formatNdjsonRecord(type, record, profile));
+  }
+}
+
 /**
- * Output data in JSON or pretty format
+ * Output data in the requested format
  */
-function output(data: CombinedOutput, pretty: boolean): void {
+function output(data: CombinedOutput, format: OutputFormat): void {
+  warnErrors(data);
+
+  const text = formatOutput(data, format);
+
   // Using console.log for stdout (data output)
-  // eslint-disable-next-line no-console
-  console.log(pretty ? formatPretty(data) : JSON.stringify(data, null, 2));
+  if (text) {
+    // eslint-disable-next-line no-console
+    console.log(text);
+  }
+}
+
+/**
+ * Fetch data and write it to stdout. NDJSON is streamed as pages arrive.
+ */
+async function fetchAndOutput(
+  types: DataType[],
+  options: DataOptions,
+  fetchOptions: FetchOptions = {}
+): Promise<void> {
+  const format = getFormat(options);
+  const window = getWindow(options);
+  const limit = Number(options.limit ?? getSetting('limit') ?? 25);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new WhoopError(
+      `--limit must be an integer from 1 to ${MAX_PAGE_SIZE}`,
+      ExitCode.INVALID_INPUT
+    );
+  }
+
+  const result = await fetchData(types, window, {
+    limit,
+    all: options.all,
+    offline: options.offline,
+    onRecords: format === 'ndjson' ? writeNdjson : undefined,
+    ...fetchOptions,
+  });
+
+  if (format === 'ndjson') {
+    warnErrors(result);
+    return;
+  }
+
+  output(result, format);
+}
+
+/**
+ * Add --date / --from / --to / --days options to a command
+ */
+function withDateOptions(command: Command): Command {
+  return command
+    .option('-d, --date <date>', 'Date (YYYY-MM-DD, today, yesterday, last-week, last-month)')
+    .option('--from <date>', 'Start of date range (inclusive)')
+    .option('--to <date>', 'End of date range (inclusive, default: today)')
+    .option('--days <n>', 'Number of days in range (ending at --to, or starting at --from)');
+}
+
+/**
+ * Add --error-format to a command. It applies as soon as it is parsed, so it also
+ * covers usage errors found later in the same command line.
+ */
+function withErrorFormat(command: Command): Command {
+  return command
+    .addOption(
+      new Option(
+        '--error-format <format>',
+        'Errors on stderr as text or json (auto: json when stdout is not a terminal)'
+      ).choices(ERROR_FORMATS)
+    )
+    .on('option:error-format', (format: ErrorFormat) => setErrorFormat(format));
+}
+
+/**
+ * Add request behaviour options (retries, caching, verbose logging, time zone, account) to a command
+ */
+function withRequestOptions(command: Command): Command {
+  return withErrorFormat(command)
+    .option('--max-attempts <n>', 'Max attempts per request, including retries', '3')
+    .option('--timeout <ms>', 'Abandon a request after this many milliseconds (default: 30000)')
+    .option('--no-cache', 'Bypass the response cache')
+    .option('--refresh', 'Ignore cached responses and re-fetch (the cache is still updated)')
+    .option('--verbose', 'Log retries and request details to stderr')
+    .option('--strict-schema', 'Fail on API responses that do not match the expected schema')
+    .option('--tz <zone>', 'IANA time zone for WHOOP days (default: WHOOP_TZ or system zone)')
+    .option('--profile [name]', 'Account profile to use (see: whoop auth list)');
+}
+
+/**
+ * Log a retry to stderr
+ */
+function logRetry(event: RetryEvent): void {
+  const reason =
+    event.error instanceof WhoopError && event.error.httpStatus
+      ? `HTTP ${event.error.httpStatus}`
+      : event.error instanceof Error
+        ? event.error.message
+        : 'request failed';
+
+  console.error(
+    `↻ ${event.endpoint}: ${reason}; retrying in ${(event.delayMs / 1000).toFixed(1)}s ` +
+      `(attempt ${event.attempt + 1} of ${event.maxAttempts})`
+  );
+}
+
+/** Drift warnings per data type before the rest are suppressed */
+const MAX_DRIFT_WARNINGS = 5;
+const driftWarnings = new Map<string, number>();
+
+/**
+ * Warn on stderr about a record that does not match the expected schema
+ */
+function warnDrift(drift: SchemaDrift): void {
+  const count = (driftWarnings.get(drift.type) ?? 0) + 1;
+  driftWarnings.set(drift.type, count);
+
+  if (count <= MAX_DRIFT_WARNINGS) {
+    console.error(`Warning: unexpected API response for ${formatSchemaDrift(drift)}`);
+  } else if (count === MAX_DRIFT_WARNINGS + 1) {
+    console.error(`Warning: further schema warnings for ${drift.type} suppressed`);
+  }
+}
+
+/**
+ * Apply request options and settings to the API client, date handling and output
+ */
+function configureRequests(options: RequestOptions): void {
+  setTimeZone(options.tz ?? getSetting('tz'));
+  const cutoffHour = getSetting('cutoff_hour');
+  setDayCutoffHour(cutoffHour !== undefined ? Number(cutoffHour) : undefined);
+  setUnits(getSetting('units'));
+  setActiveProfile(typeof options.profile === 'string' ? options.profile : undefined);
+  setCacheOptions({ enabled: options.cache !== false, refresh: options.refresh === true });
+  setSchemaOptions({ strict: options.strictSchema === true, onDrift: warnDrift });
+
+  const maxAttempts = options.maxAttempts !== undefined ? Number(options.maxAttempts) : undefined;
+
+  if (maxAttempts !== undefined && (!Number.isInteger(maxAttempts) || maxAttempts < 1)) {
+    throw new WhoopError('--max-attempts must be a positive integer', ExitCode.INVALID_INPUT);
+  }
+
+  setRetryPolicy({
+    ...(maxAttempts !== undefined && { maxAttempts }),
+    onRetry: options.verbose ? logRetry : undefined,
+  });
+
+  const timeout = Number(options.timeout ?? getSetting('timeout'));
+
+  if (!Number.isInteger(timeout) || timeout < 1) {
+    throw new WhoopError('--timeout must be a positive integer', ExitCode.INVALID_INPUT);
+  }
+
+  setRequestTimeout(timeout);
+}
+
+/**
+ * Collect the request options of a command and its parents. With positional
+ * options, `whoop --profile alice sleep` leaves --profile on the root program,
+ * so options set on a parent count unless the command itself sets them.
+ */
+function getRequestOptions(command: Command): RequestOptions {
+  const chain: Command[] = [];
+  for (let current: Command | null = command; current; current = current.parent) {
+    chain.unshift(current);
+  }
+
+  const options: Record<string, unknown> = {};
+
+  for (const current of chain) {
+    for (const [key, value] of Object.entries(current.opts())) {
+      if (options[key] === undefined || current.getOptionValueSource(key) !== 'default') {
+        options[key] = value;
+      }
+    }
+  }
+
+  return options as RequestOptions;
+}
+
+/**
+ * Resolve date options into a window of WHOOP days
+ */
+function getWindow(options: DateOptions): DateWindow {
+  return resolveDateWindow({
+    date: options.date,
+    from: options.from,
+    to: options.to,
+    days: options.days !== undefined ? Number(options.days) : undefined,
+  });
 }
 
 // ============================================================================
 // Program Setup
 // ============================================================================
 
+// Until --error-format is parsed, errors follow the configured format
+try {
+  const format = getSetting('error_format');
+  if (ERROR_FORMATS.includes(format as ErrorFormat)) {
+    setErrorFormat(format as ErrorFormat);
+  }
+} catch {
+  // An unreadable config file is reported by the command that needs it
+}
+
 program
   .name('whoop')
   .description('CLI for fetching WHOOP health data')
   .version('0.1.0')
-  .enablePositionalOptions();
+  .enablePositionalOptions()
+  .configureOutput({
+    // With JSON errors, usage errors are reported by the exit callback instead
+    outputError: (message, write) => {
+      if (getErrorFormat() === 'text') {
+        write(message);
+      }
+    },
+  })
+  .exitOverride((error) => {
+    // Help and --version
+    if (error.exitCode === 0) {
+      process.exit(0);
+    }
+
+    // Commander already printed text errors
+    if (getErrorFormat() === 'text') {
+      process.exit(ExitCode.INVALID_INPUT);
+    }
+
+    handleError(new WhoopError(error.message.replace(/^error: /, ''), ExitCode.INVALID_INPUT));
+  })
+  .hook('preAction', (_program, actionCommand) => {
+    // `whoop config` must work even when a setting is invalid, to fix it
+    if (actionCommand.name() === 'config') {
+      return;
+    }
+
+    try {
+      const options = getRequestOptions(actionCommand);
+
+      if (options.profile === true && actionCommand !== program) {
+        throw new WhoopError('--profile requires a profile name', ExitCode.INVALID_INPUT);
+      }
+
+      configureRequests(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
 
 // ============================================================================
 // Auth Commands
 // ============================================================================
 
-program
-  .command('auth')
+/**
+ * Ask for a new token passphrase, twice
+ */
+async function readNewPassphrase(envVar: string): Promise<string> {
+  if (!canPrompt()) {
+    throw new WhoopError(
+      `A passphrase is needed. Run interactively or set ${envVar}`,
+      ExitCode.INVALID_INPUT
+    );
+  }
+
+  const passphrase = await promptSecret('New passphrase: ');
+  if (!passphrase) {
+    throw new WhoopError('Passphrase cannot be empty', ExitCode.INVALID_INPUT);
+  }
+
+  if ((await promptSecret('Repeat passphrase: ')) !== passphrase) {
+    throw new WhoopError('Passphrases do not match', ExitCode.INVALID_INPUT);
+  }
+
+  return passphrase;
+}
+
+/**
+ * Get the passphrase for token bundles: WHOOP_BUNDLE_PASSPHRASE, else a prompt
+ */
+async function readBundlePassphrase(confirm: boolean): Promise<string> {
+  const env = process.env['WHOOP_BUNDLE_PASSPHRASE'];
+  if (env) {
+    return env;
+  }
+
+  if (confirm) {
+    return readNewPassphrase('WHOOP_BUNDLE_PASSPHRASE');
+  }
+
+  if (!canPrompt()) {
+    throw new WhoopError(
+      'A passphrase is needed. Run interactively or set WHOOP_BUNDLE_PASSPHRASE',
+      ExitCode.INVALID_INPUT
+    );
+  }
+
+  return promptSecret('Bundle passphrase: ');
+}
+
+withErrorFormat(program.command('auth'))
   .description('Manage authentication')
-  .argument('<action>', 'login, logout, status, or refresh')
-  .action(async (action: string) => {
+  .argument('<action>', 'login, logout, status, refresh, list, use, export, or import')
+  .argument('[name]', 'Profile name (for use) or bundle file (for import)')
+  .option('--profile <name>', 'Account profile (default: WHOOP_PROFILE or the one set with use)')
+  .option(
+    '--no-browser',
+    'Print the login URL and paste the redirect URL instead (SSH, containers)'
+  )
+  .option('--port <n>', 'Port for the login callback server (0 for any free port)')
+  .option('--passphrase', 'Encrypt tokens with a passphrase you choose (login)')
+  .option('--out <file>', 'Write the token bundle to a file (export; default: stdout)')
+  .option('--local-only', 'Delete local tokens without revoking them with WHOOP (logout)')
+  .option('--json', 'Print status as JSON to stdout (status)')
+  .action(
+    async (
+      action: string,
+      name: string | undefined,
+      options: {
+        browser: boolean;
+        port?: string;
+        passphrase?: boolean;
+        out?: string;
+        localOnly?: boolean;
+        json?: boolean;
+      }
+    ) => {
+      try {
+        switch (action) {
+          case 'login': {
+            const port = options.port !== undefined ? Number(options.port) : undefined;
+            if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+              throw new WhoopError(
+                '--port must be an integer from 0 to 65535',
+                ExitCode.INVALID_INPUT
+              );
+            }
+
+            if (options.passphrase) {
+              setPassphrase(await readNewPassphrase('WHOOP_PASSPHRASE'));
+            }
+
+            await login({ browser: options.browser, port });
+            break;
+          }
+          case 'logout':
+            await unlockTokens();
+            await logout({ localOnly: options.localOnly });
+            break;
+          case 'status':
+            await unlockTokens();
+
+            if (options.json) {
+              // eslint-disable-next-line no-console
+              console.log(JSON.stringify(getAuthStatus(), null, 2));
+            } else {
+              authStatus();
+            }
+            break;
+          case 'refresh':
+            await authRefresh();
+            break;
+          case 'list': {
+            const active = getActiveProfile();
+            const profiles = listProfiles().map((profile) => ({
+              name: profile,
+              active: profile === active,
+            }));
+
+            // eslint-disable-next-line no-console
+            console.log(JSON.stringify({ active, profiles }, null, 2));
+            break;
+          }
+          case 'use':
+            if (!name) {
+              throw new WhoopError('Usage: whoop auth use <name>', ExitCode.INVALID_INPUT);
+            }
+
+            useProfile(name);
+            console.error(`✅ Now using profile ${name}`);
+            break;
+          case 'export': {
+            const bundle = await exportTokens(await readBundlePassphrase(true), options.out);
+
+            if (options.out === undefined) {
+              // eslint-disable-next-line no-console
+              console.log(JSON.stringify(bundle, null, 2));
+            }
+            break;
+          }
+          case 'import': {
+            if (!name) {
+              throw new WhoopError('Usage: whoop auth import <file>', ExitCode.INVALID_INPUT);
+            }
+
+            const bundle = readTokenBundle(name);
+            importTokens(bundle, await readBundlePassphrase(false));
+            break;
+          }
+          default:
+            throw new WhoopError(
+              `Unknown auth action: ${action}. Use: login, logout, status, refresh, list, use, export, or import`,
+              ExitCode.INVALID_INPUT
+            );
+        }
+      } catch (error) {
+        handleError(error);
+      }
+    }
+  );
+
+// ============================================================================
+// Config Command
+// ============================================================================
+
+withErrorFormat(program.command('config'))
+  .description('Manage settings in config.json (precedence: flag > env > config > default)')
+  .argument('<action>', 'get, set, unset, or list')
+  .argument('[key]', `Setting: ${CONFIG_KEYS.join(', ')}`)
+  .argument('[value]', 'Value to set (prompted for secrets when omitted)')
+  .action(async (action: string, key: string | undefined, value: string | undefined) => {
     try {
+      if (action === 'list') {
+        const settings = Object.fromEntries(
+          listSettings().map((setting) => [
+            setting.key,
+            {
+              value:
+                setting.value !== undefined && isSecretSetting(setting.key)
+                  ? '********'
+                  : (setting.value ?? null),
+              source: setting.source,
+              env: SETTINGS[setting.key].env,
+              description: SETTINGS[setting.key].description,
+            },
+          ])
+        );
+
+        // eslint-disable-next-line no-console
+        console.log(JSON.stringify({ file: getConfigFile(), settings }, null, 2));
+        return;
+      }
+
+      if (!key || !isConfigKey(key)) {
+        throw new WhoopError(
+          key
+            ? `Unknown config key: ${key}. Use one of: ${CONFIG_KEYS.join(', ')}`
+            : `Usage: whoop config ${action} <key>`,
+          ExitCode.INVALID_INPUT
+        );
+      }
+
       switch (action) {
-        case 'login':
-          await login();
+        case 'get': {
+          const setting = resolveSetting(key);
+          if (setting.value === undefined) {
+            throw new WhoopError(`${key} is not set`, ExitCode.NOT_FOUND);
+          }
+
+          // eslint-disable-next-line no-console
+          console.log(setting.value);
           break;
-        case 'logout':
-          logout();
+        }
+        case 'set': {
+          let newValue = value;
+          if (newValue === undefined) {
+            if (!isSecretSetting(key) || !canPrompt()) {
+              throw new WhoopError(
+                `Usage: whoop config set ${key} <value>`,
+                ExitCode.INVALID_INPUT
+              );
+            }
+            newValue = await promptSecret(`${SETTINGS[key].description}: `);
+          }
+
+          setConfigValue(key, newValue);
+          console.error(`✅ Set ${key}${isSecretSetting(key) ? ' (encrypted)' : ` = ${newValue}`}`);
+
+          const { source } = resolveSetting(key);
+          if (source === 'env') {
+            console.error(`Note: ${SETTINGS[key].env} is set and takes precedence`);
+          }
           break;
-        case 'status':
-          authStatus();
+        }
+        case 'unset':
+          console.error(
+            unsetConfigValue(key) ? `✅ Unset ${key}` : `${key} was not set in ${getConfigFile()}`
+          );
           break;
-        case 'refresh':
-          await authRefresh();
+        default:
+          throw new WhoopError(
+            `Unknown config action: ${action}. Use: get, set, unset, or list`,
+            ExitCode.INVALID_INPUT
+          );
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Cache Command
+// ============================================================================
+
+withErrorFormat(program.command('cache'))
+  .description('Inspect or clear the response cache')
+  .argument('<action>', 'stats or clear')
+  .option('--profile <name>', 'Account profile to use (see: whoop auth list)')
+  .action((action: string) => {
+    try {
+      switch (action) {
+        case 'stats':
+          // eslint-disable-next-line no-console
+          console.log(JSON.stringify(getCacheStats(), null, 2));
           break;
+        case 'clear': {
+          const removed = clearCache();
+          console.error(`✅ Removed ${removed} cached response${removed === 1 ? '' : 's'}`);
+          break;
+        }
         default:
           throw new WhoopError(
-            `Unknown auth action: ${action}. Use: login, logout, status, or refresh`,
-            ExitCode.GENERAL_ERROR
+            `Unknown cache action: ${action}. Use: stats or clear`,
+            ExitCode.INVALID_INPUT
           );
       }
     } catch (error) {
@@ -78,60 +713,122 @@ program
 // ============================================================================
 
 /**
- * Helper to create data subcommands
+ * Fetch a single record by ID, or the record linked to a cycle.
+ * The result is shaped like a one-day query, dated by the record's WHOOP day.
  */
-function addDataCommand(name: string, description: string, dataType: DataType): void {
-  program
-    .command(name)
-    .description(description)
-    .option('-d, --date <date>', 'Date in ISO format (YYYY-MM-DD)')
-    .option('-l, --limit <number>', 'Max results per page', '25')
-    .option('-a, --all', 'Fetch all pages')
+async function fetchRecord(
+  dataType: DataType,
+  options: { id?: string; cycle?: string }
+): Promise<CombinedOutput> {
+  const base = (timestamp: string, timezoneOffset?: string): CombinedOutput => ({
+    date: getRecordDay(timestamp, timezoneOffset),
+    fetched_at: nowISO(),
+    profile_name: getActiveProfile(),
+  });
+
+  if (options.cycle) {
+    if (dataType === 'recovery') {
+      const recovery = await getRecoveryForCycle(options.cycle);
+      return { ...base(recovery.created_at), recovery: [recovery] };
+    }
+    const sleep = await getSleepForCycle(options.cycle);
+    return { ...base(sleep.start, sleep.timezone_offset), sleep: [sleep] };
+  }
+
+  const id = options.id ?? '';
+
+  switch (dataType) {
+    case 'sleep': {
+      const sleep = await getSleepById(id);
+      return { ...base(sleep.start, sleep.timezone_offset), sleep: [sleep] };
+    }
+    case 'workout': {
+      const workout = await getWorkoutById(id);
+      return { ...base(workout.start, workout.timezone_offset), workout: [workout] };
+    }
+    default: {
+      const cycle = await getCycleById(id);
+      return { ...base(cycle.start, cycle.timezone_offset), cycle: [cycle] };
+    }
+  }
+}
+
+/**
+ * Helper to create data subcommands.
+ * `lookups` adds --id (single record) and --cycle (record linked to a cycle).
+ */
+function addDataCommand(
+  name: string,
+  description: string,
+  dataType: DataType,
+  lookups: { id?: boolean; cycle?: boolean } = {}
+): void {
+  const command = withRequestOptions(
+    withDateOptions(program.command(name).description(description))
+  )
+    .option('-l, --limit <number>', 'Max results per page (default: 25, or config limit)')
+    .option('-a, --all', 'Fetch all pages (default for date ranges)')
     .option('-p, --pretty', 'Human-readable output')
-    .action(async (options: { date?: string; limit: string; all?: boolean; pretty?: boolean }) => {
-      try {
-        const date = options.date ?? getWhoopDay();
+    .option('-f, --format <format>', 'Output format: json, pretty, csv, tsv, ndjson')
+    .option('--offline', 'Read from the local store instead of the API (see: whoop sync)');
 
-        if (options.date && !validateISODate(options.date)) {
-          throw new WhoopError('Invalid date format. Use YYYY-MM-DD', ExitCode.GENERAL_ERROR);
-        }
+  if (lookups.id) {
+    command.option('--id <id>', `Fetch a single ${name} by ID`);
+  }
+  if (lookups.cycle) {
+    command.option('--cycle <id>', `Fetch the ${name} for a cycle ID`);
+  }
 
-        const result = await fetchData([dataType], date, {
-          limit: parseInt(options.limit, 10),
-          all: options.all,
-        });
+  command.action(async (options: DataOptions & { id?: string; cycle?: string }) => {
+    try {
+      if (options.id ?? options.cycle) {
+        if (options.id && options.cycle) {
+          throw new WhoopError('--id cannot be combined with --cycle', ExitCode.INVALID_INPUT);
+        }
+        if (options.date ?? options.from ?? options.to ?? options.days ?? options.offline) {
+          throw new WhoopError(
+            `--${options.id ? 'id' : 'cycle'} cannot be combined with date options or --offline`,
+            ExitCode.INVALID_INPUT
+          );
+        }
 
-        output(result, options.pretty ?? false);
-      } catch (error) {
-        handleError(error);
+        const format = getFormat(options);
+        output(await fetchRecord(dataType, options), format);
+        return;
       }
-    });
+
+      await fetchAndOutput([dataType], options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
 }
 
 addDataCommand('profile', 'Fetch user profile', 'profile');
 addDataCommand('body', 'Fetch body measurements', 'body');
-addDataCommand('sleep', 'Fetch sleep data', 'sleep');
-addDataCommand('recovery', 'Fetch recovery data', 'recovery');
-addDataCommand('workout', 'Fetch workout data', 'workout');
-addDataCommand('cycle', 'Fetch cycle (daily strain) data', 'cycle');
+addDataCommand('sleep', 'Fetch sleep data', 'sleep', { id: true, cycle: true });
+addDataCommand('recovery', 'Fetch recovery data', 'recovery', { cycle: true });
+addDataCommand('workout', 'Fetch workout data', 'workout', { id: true });
+addDataCommand('cycle', 'Fetch cycle (daily strain) data', 'cycle', { id: true });
 
 // ============================================================================
 // Summary Command
 // ============================================================================
 
-program
-  .command('summary')
-  .description('One-line health summary')
-  .option('-d, --date <date>', 'Date in ISO format (YYYY-MM-DD)')
-  .action(async (options: { date?: string }) => {
+withRequestOptions(program.command('summary').description('One-line health summary'))
+  .option('-d, --date <date>', 'Date (YYYY-MM-DD, today, yesterday)')
+  .option('--offline', 'Read from the local store instead of the API (see: whoop sync)')
+  .option('--strict', 'Fail if any data type fails instead of returning partial data')
+  .action(async (options: { date?: string; offline?: boolean; strict?: boolean }) => {
     try {
-      const date = options.date ?? getWhoopDay();
+      const date = options.date ? resolveDate(options.date) : getWhoopDay();
 
-      if (options.date && !validateISODate(options.date)) {
-        throw new WhoopError('Invalid date format. Use YYYY-MM-DD', ExitCode.GENERAL_ERROR);
-      }
+      const result = await fetchData(['recovery', 'sleep', 'cycle'], date, {
+        offline: options.offline,
+        strict: options.strict,
+      });
 
-      const result = await fetchData(['recovery', 'sleep', 'cycle'], date);
+      warnErrors(result);
 
       // eslint-disable-next-line no-console
       console.log(formatSummary(result));
@@ -140,27 +837,227 @@ program
     }
   });
 
+// ============================================================================
+// Trends Command
+// ============================================================================
+
+withRequestOptions(
+  program.command('trends').description('Compare recent metrics against 7/30/90-day baselines')
+)
+  .option('-d, --date <date>', 'Compare as of this day (YYYY-MM-DD, today, yesterday)')
+  .option('-p, --pretty', 'Human-readable output')
+  .option('--offline', 'Read from the local store instead of the API (see: whoop sync)')
+  .option('--strict', 'Fail if any data type fails instead of returning partial data')
+  .action(
+    async (options: { date?: string; pretty?: boolean; offline?: boolean; strict?: boolean }) => {
+      try {
+        const asOf = options.date ? resolveDate(options.date) : getWhoopDay();
+        const from = addDays(asOf, -Math.max(...DEFAULT_WINDOWS));
+
+        const data = await fetchData(
+          ['recovery', 'sleep', 'cycle'],
+          { from, to: asOf },
+          { offline: options.offline, strict: options.strict }
+        );
+
+        warnErrors(data);
+
+        const report = calculateTrends(data, { asOf });
+
+        // eslint-disable-next-line no-console
+        console.log(options.pretty ? formatTrends(report) : JSON.stringify(report, null, 2));
+      } catch (error) {
+        handleError(error);
+      }
+    }
+  );
+
+// ============================================================================
+// Sync Command
+// ============================================================================
+
+withRequestOptions(
+  program.command('sync').description('Sync all records into the local store for --offline use')
+)
+  .option('--full', 'Re-fetch everything instead of only new and re-scored records')
+  .option('--lookback <days>', 'Days before the newest stored record to re-check', '7')
+  .action(async (options: { full?: boolean; lookback: string }) => {
+    try {
+      const lookbackDays = Number(options.lookback);
+      if (!Number.isInteger(lookbackDays) || lookbackDays < 0) {
+        throw new WhoopError('--lookback must be a non-negative integer', ExitCode.INVALID_INPUT);
+      }
+
+      // The store must reflect the API, so never read from the cache
+      setCacheOptions({ refresh: true });
+
+      const result = await sync({
+        full: options.full,
+        lookbackDays,
+        onProgress: (type, typeResult) => {
+          console.error(
+            `  ✓ ${type}: ${typeResult.fetched} fetched, ${typeResult.added} new, ` +
+              `${typeResult.updated} updated (${typeResult.total} stored)`
+          );
+        },
+      });
+
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(result, null, 2));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
 // ============================================================================
 // Wake Detection Command
 // ============================================================================
 
-program
-  .command('wake')
-  .description('Check if user is actually awake (adaptive sleep pattern detection)')
+/**
+ * Build the wake model from the wake_* settings
+ */
+function getWakeModel(): WakeModel {
+  return buildWakeModel({
+    weights: getSetting('wake_weights'),
+    cutoff: getSetting('wake_cutoff'),
+    thresholds: getSetting('wake_thresholds'),
+    defaults: getSetting('wake_defaults'),
+  });
+}
+
+interface WakeOptions {
+  pretty?: boolean;
+  seed?: boolean;
+  explain?: boolean;
+  wait?: boolean;
+  interval: string;
+  until?: string;
+}
+
+/**
+ * Find the sleep wake detection looks at: the first primary sleep, or a nap if
+ * there is nothing else
+ */
+function findPrimarySleep(sleeps: WhoopSleep[]): WhoopSleep | undefined {
+  return sleeps.find((s) => !s.nap) ?? sleeps[0];
+}
+
+/**
+ * Print a wake result, with the explanation when asked for
+ */
+function printWakeResult(result: WakeCheckResult, options: WakeOptions): void {
+  const explanation = options.explain ? explainWake(result) : undefined;
+
+  if (options.pretty) {
+    // eslint-disable-next-line no-console
+    console.log(
+      formatWakeResult(result) + (explanation ? `\n${formatWakeExplanation(explanation)}` : '')
+    );
+  } else {
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify({ ...result, explanation }, null, 2));
+  }
+}
+
+/**
+ * Poll today's sleeps until one counts as awake, re-running wake detection only
+ * when a new or re-scored sleep appears. Fails with WAKE_DEADLINE once the
+ * deadline passes, after printing the last result (if any).
+ */
+async function waitForWake(options: WakeOptions): Promise<void> {
+  if (options.until === undefined) {
+    throw new WhoopError('--wait needs a deadline: --until <HH:MM>', ExitCode.INVALID_INPUT);
+  }
+
+  const intervalMs = parseInterval(options.interval);
+  const deadline = parseDeadline(options.until);
+  const model = getWakeModel();
+
+  // Polls must see new and re-scored sleeps, so never read from the cache
+  setCacheOptions({ refresh: true });
+
+  let lastSleep: string | undefined;
+  let lastResult: WakeCheckResult | undefined;
+
+  for (let attempt = 1; ; attempt++) {
+    let waitMs = intervalMs;
+    let status: string;
+
+    try {
+      const data = await fetchData(['sleep'], getWhoopDay(), { limit: 10, strict: true });
+      const sleep = findPrimarySleep(data.sleep ?? []);
+      const version = sleep && `${sleep.id}@${sleep.updated_at}:${sleep.score_state}`;
+
+      if (!sleep) {
+        status = 'no sleep yet';
+      } else if (version === lastSleep) {
+        status = 'no new or re-scored sleep';
+      } else if (!sleep.score) {
+        lastSleep = version;
+        status = `sleep ${sleep.id} not scored yet`;
+      } else {
+        lastSleep = version;
+        lastResult = checkWake(sleep, undefined, model);
+        status =
+          `sleep ${sleep.id} ended ${lastResult.sleep.endLocalTime} local, ` +
+          `score ${lastResult.score}/${lastResult.maxScore}: ` +
+          (lastResult.isAwake ? 'awake' : 'not awake');
+      }
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        waitMs = Math.max(waitMs, (error.retryAfter ?? 0) * 1000);
+        status = 'rate limited';
+      } else if (isRetryable(error) || error instanceof TimeoutError) {
+        status = `request failed (${(error as Error).message})`;
+      } else {
+        throw error;
+      }
+    }
+
+    const prefix = `[${formatMinutes(getRecordMinutes(nowISO()))}] Attempt ${attempt}: ${status}`;
+
+    if (lastResult?.isAwake) {
+      console.error(prefix);
+      printWakeResult(lastResult, options);
+      return;
+    }
+
+    const remainingMs = deadline.getTime() - Date.now();
+    if (remainingMs <= 0) {
+      console.error(`${prefix}; deadline passed`);
+      if (lastResult) {
+        printWakeResult(lastResult, options);
+      }
+      throw new WhoopError(`No wake-up detected by ${options.until}`, ExitCode.WAKE_DEADLINE);
+    }
+
+    waitMs = Math.min(waitMs, remainingMs);
+    console.error(`${prefix}; next check in ${Math.ceil(waitMs / 1000)}s`);
+    await delay(waitMs);
+  }
+}
+
+const wake = withRequestOptions(
+  program
+    .command('wake')
+    .description('Check if user is actually awake (adaptive sleep pattern detection)')
+)
   .option('-p, --pretty', 'Human-readable output')
   .option('--seed', 'Seed history with recent sleep data (run once to initialize)')
-  .action(async (options: { pretty?: boolean; seed?: boolean }) => {
+  .option('--explain', 'Show how each check would have to change to flip the decision')
+  .option('--wait', 'Poll until awake, exiting with code 10 if the --until deadline passes')
+  .option('--interval <duration>', 'Time between polls with --wait, e.g. 30s, 5m', '5m')
+  .option('--until <time>', 'Deadline for --wait: HH:MM today, or an ISO timestamp')
+  .action(async (options: WakeOptions) => {
     try {
       // If seeding, fetch last 14 days and populate history
       if (options.seed) {
         // eslint-disable-next-line no-console
         console.error('Seeding sleep history with last 14 days...');
 
-        const today = new Date();
+        const today = getWhoopDay();
         for (let i = 13; i >= 0; i--) {
-          const date = new Date(today);
-          date.setDate(date.getDate() - i);
-          const dateStr = date.toISOString().split('T')[0] as string;
+          const dateStr = addDays(today, -i);
 
           try {
             const result = await fetchData(['sleep'], dateStr, { limit: 10 });
@@ -192,6 +1089,11 @@ program
         return;
       }
 
+      if (options.wait) {
+        await waitForWake(options);
+        return;
+      }
+
       // Fetch today's sleep
       const date = getWhoopDay();
       const result = await fetchData(['sleep'], date, { limit: 10 });
@@ -214,7 +1116,7 @@ program
       }
 
       // Find primary sleep (not nap, most recent)
-      const primarySleep = sleeps.find((s: { nap?: boolean }) => !s.nap) ?? sleeps[0];
+      const primarySleep = findPrimarySleep(sleeps);
 
       if (!primarySleep) {
         // eslint-disable-next-line no-console
@@ -232,16 +1134,59 @@ program
         return;
       }
 
+      if (!primarySleep.score) {
+        // eslint-disable-next-line no-console
+        console.log(
+          JSON.stringify(
+            {
+              isAwake: false,
+              reason: 'not_scored',
+              message: `Sleep ${primarySleep.id} is not scored yet (${primarySleep.score_state}).`,
+            },
+            null,
+            2
+          )
+        );
+        return;
+      }
+
       // Run wake detection
-      const wakeResult = checkWake(primarySleep);
+      printWakeResult(checkWake(primarySleep, undefined, getWakeModel()), options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
 
-      if (options.pretty) {
-        // eslint-disable-next-line no-console
-        console.log(formatWakeResult(wakeResult));
-      } else {
-        // eslint-disable-next-line no-console
-        console.log(JSON.stringify(wakeResult, null, 2));
+withRequestOptions(
+  wake
+    .command('backtest')
+    .description('Replay past sleeps through wake detection and score its calls')
+)
+  .option('--days <n>', 'Days to replay, ending yesterday', '60')
+  .option('-p, --pretty', 'Human-readable output')
+  .option('--offline', 'Read from the local store instead of the API (see: whoop sync)')
+  .action(async (options: { days: string; pretty?: boolean; offline?: boolean }) => {
+    try {
+      const days = Number(options.days);
+      if (!Number.isInteger(days) || days < 1) {
+        throw new WhoopError('--days must be a positive integer', ExitCode.INVALID_INPUT);
       }
+
+      // Only finished days have a known final sleep
+      const to = addDays(getWhoopDay(), -1);
+      const from = addDays(to, -(days - 1));
+
+      // Replay the week before too, so the first days have history
+      const data = await fetchData(
+        ['sleep'],
+        { from: addDays(from, -ROLLING_WINDOW), to },
+        { offline: options.offline, strict: true }
+      );
+
+      const report = backtestWake(data.sleep ?? [], { from, to }, getWakeModel());
+
+      // eslint-disable-next-line no-console
+      console.log(options.pretty ? formatBacktest(report) : JSON.stringify(report, null, 2));
     } catch (error) {
       handleError(error);
     }
@@ -251,30 +1196,34 @@ program
 // Default Command (combined data)
 // ============================================================================
 
-program
-  .option('-d, --date <date>', 'Date in ISO format (YYYY-MM-DD)')
-  .option('-l, --limit <number>', 'Max results per page', '25')
-  .option('-a, --all', 'Fetch all pages')
+withRequestOptions(withDateOptions(program))
+  .option('-l, --limit <number>', 'Max results per page (default: 25, or config limit)')
+  .option('-a, --all', 'Fetch all pages (default for date ranges)')
   .option('-p, --pretty', 'Human-readable output')
+  .option('-f, --format <format>', 'Output format: json, pretty, csv, tsv, ndjson')
+  .option('--offline', 'Read from the local store instead of the API (see: whoop sync)')
+  .option('--strict', 'Fail if any data type fails instead of returning partial data')
   .option('--sleep', 'Include sleep data')
   .option('--recovery', 'Include recovery data')
   .option('--workout', 'Include workout data')
   .option('--cycle', 'Include cycle data')
-  .option('--profile', 'Include profile data')
   .option('--body', 'Include body measurements')
+  .addHelpText(
+    'after',
+    '\nOn this command, a bare --profile includes profile data; --profile <name> selects an account.'
+  )
   .action(
-    async (options: {
-      date?: string;
-      limit: string;
-      all?: boolean;
-      pretty?: boolean;
-      sleep?: boolean;
-      recovery?: boolean;
-      workout?: boolean;
-      cycle?: boolean;
-      profile?: boolean;
-      body?: boolean;
-    }) => {
+    async (
+      options: DataOptions & {
+        strict?: boolean;
+        sleep?: boolean;
+        recovery?: boolean;
+        workout?: boolean;
+        cycle?: boolean;
+        profile?: string | boolean;
+        body?: boolean;
+      }
+    ) => {
       try {
         // Collect requested data types
         const types: DataType[] = [];
@@ -282,27 +1231,21 @@ program
         if (options.recovery) types.push('recovery');
         if (options.workout) types.push('workout');
         if (options.cycle) types.push('cycle');
-        if (options.profile) types.push('profile');
+        if (options.profile === true) types.push('profile');
         if (options.body) types.push('body');
 
+        // Without type flags, fall back to the configured default types
+        if (types.length === 0) {
+          types.push(...((getSetting('types')?.split(',') ?? []) as DataType[]));
+        }
+
         // If no types specified, show help
         if (types.length === 0) {
           program.help();
           return;
         }
 
-        const date = options.date ?? getWhoopDay();
-
-        if (options.date && !validateISODate(options.date)) {
-          throw new WhoopError('Invalid date format. Use YYYY-MM-DD', ExitCode.GENERAL_ERROR);
-        }
-
-        const result = await fetchData(types, date, {
-          limit: parseInt(options.limit, 10),
-          all: options.all,
-        });
-
-        output(result, options.pretty ?? false);
+        await fetchAndOutput(types, options, { strict: options.strict });
       } catch (error) {
         handleError(error);
       }
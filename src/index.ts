@@ -10,6 +10,9 @@
  *
  * // Fetch multiple data types
  * const data = await fetchData(['recovery', 'sleep'], '2026-01-12');
+ *
+ * // Fetch a range of days in one paginated window
+ * const month = await fetchData(['recovery'], { from: '2026-01-01', to: '2026-01-30' });
  * ```
  */
 
@@ -21,30 +24,159 @@ export type {
   WhoopRecovery,
   WhoopWorkout,
   WhoopCycle,
+  ScoreState,
   CombinedOutput,
   DataType,
+  DateWindow,
+  DateRange,
+  DataTypeError,
+  FetchOptions,
   QueryParams,
+  IterateOptions,
+  RecordIterable,
+  PaginatedResponse,
   OAuthTokens,
   AuthStatus,
 } from './types/whoop.js';
 
 // API Client
 export {
+  WhoopClient,
+  getDefaultClient,
   getProfile,
   getBody,
   getSleep,
   getRecovery,
   getWorkout,
   getCycle,
+  iterateSleep,
+  iterateRecovery,
+  iterateWorkout,
+  iterateCycle,
+  getSleepById,
+  getWorkoutById,
+  getCycleById,
+  getRecoveryForCycle,
+  getSleepForCycle,
   fetchData,
   fetchAllTypes,
+  setRetryPolicy,
+  getRetryPolicy,
+  setCacheOptions,
+  getCacheOptions,
+  setSchemaOptions,
+  getSchemaOptions,
+  setRequestTimeout,
+  getRequestTimeout,
+  revokeAccess,
 } from './api/client.js';
+export { DEFAULT_RETRY_POLICY } from './api/retry.js';
+export {
+  DEFAULT_CACHE_OPTIONS,
+  getCacheDir,
+  getCacheStats,
+  clearCache,
+  STATIC_TTL_MS,
+  RECENT_TTL_MS,
+  SETTLED_TTL_MS,
+} from './api/cache.js';
+export type { CacheOptions, CacheStats } from './api/cache.js';
+export {
+  DEFAULT_SCHEMA_OPTIONS,
+  validateRecord,
+  validatePage,
+  formatSchemaDrift,
+} from './api/schema.js';
+export type { SchemaOptions, SchemaDrift, SchemaIssue } from './api/schema.js';
+export { sync } from './api/sync.js';
+export type { SyncOptions, SyncResult, SyncTypeResult } from './api/sync.js';
+export type { RetryPolicy, RetryEvent } from './api/retry.js';
+export type { WhoopClientOptions, ClientSettings } from './api/client.js';
 
 // Auth
-export { login, logout, status, refresh } from './auth/oauth.js';
-export { hasTokens, getTokenDir } from './auth/tokens.js';
+export {
+  login,
+  logout,
+  status,
+  getAuthStatus,
+  refresh,
+  exportTokens,
+  importTokens,
+  SCOPES,
+} from './auth/oauth.js';
+export type { LoginOptions, LogoutOptions } from './auth/oauth.js';
+export { hasTokens, getTokenDir, listProfiles, useProfile, setPassphrase } from './auth/tokens.js';
+export { getActiveProfile, setActiveProfile, DEFAULT_PROFILE } from './auth/profiles.js';
 
 // Utilities
-export { formatPretty, formatSummary } from './utils/format.js';
-export { getWhoopDay, formatDate, formatDuration, getDateRange } from './utils/date.js';
-export { WhoopError, AuthError, RateLimitError, ExitCode } from './utils/errors.js';
+export { readStore, queryStore, getStoreDir } from './utils/store.js';
+export {
+  formatPretty,
+  formatSummary,
+  formatOutput,
+  setUnits,
+  OUTPUT_FORMATS,
+  UNIT_SYSTEMS,
+} from './utils/format.js';
+export type { OutputFormat, UnitSystem } from './utils/format.js';
+export {
+  getSetting,
+  resolveSetting,
+  listSettings,
+  setConfigValue,
+  unsetConfigValue,
+  getConfigFile,
+  SETTINGS,
+  CONFIG_KEYS,
+} from './utils/config.js';
+export type { ConfigKey, ResolvedSetting, SettingSource } from './utils/config.js';
+export { flattenRecord, formatDelimited, formatNdjson, COLUMNS } from './utils/flatten.js';
+export {
+  buildDailySeries,
+  calculateStats,
+  calculateBaseline,
+  calculateTrends,
+  rollingStats,
+  zScore,
+  formatTrends,
+  TREND_METRICS,
+  DEFAULT_WINDOWS,
+} from './utils/trends.js';
+export type {
+  TrendMetric,
+  TrendReport,
+  MetricTrend,
+  BaselineStats,
+  RollingPoint,
+  DailyValue,
+  DailySeries,
+} from './utils/trends.js';
+export {
+  getWhoopDay,
+  formatDate,
+  formatDuration,
+  getDateRange,
+  getWindowRange,
+  resolveDate,
+  resolveDateWindow,
+  getRecordDay,
+  setTimeZone,
+  getTimeZone,
+  setDayCutoffHour,
+  getDayCutoffHour,
+  getTimeZoneOffset,
+  zonedTimeToUtc,
+} from './utils/date.js';
+export {
+  WhoopError,
+  AuthError,
+  RateLimitError,
+  TimeoutError,
+  SchemaError,
+  ExitCode,
+  ERROR_FORMATS,
+  setErrorFormat,
+  getErrorFormat,
+  toErrorReport,
+} from './utils/errors.js';
+export type { ErrorFormat, ErrorReport } from './utils/errors.js';
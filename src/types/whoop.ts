@@ -20,6 +20,16 @@ export interface WhoopBody {
   max_heart_rate: number;
 }
 
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Records are scored some time after they end. `score` is only present once
+ * `score_state` is `SCORED`.
+ */
+export type ScoreState = 'SCORED' | 'PENDING_SCORE' | 'UNSCORABLE';
+
 // ============================================================================
 // Sleep
 // ============================================================================
@@ -52,7 +62,8 @@ export interface SleepScore {
 }
 
 export interface WhoopSleep {
-  id: number;
+  /** UUID */
+  id: string;
   user_id: number;
   created_at: string;
   updated_at: string;
@@ -60,8 +71,8 @@ export interface WhoopSleep {
   end: string;
   timezone_offset: string;
   nap: boolean;
-  score_state: 'SCORED' | 'PENDING_SCORE' | 'UNSCORABLE';
-  score: SleepScore;
+  score_state: ScoreState;
+  score?: SleepScore;
 }
 
 // ============================================================================
@@ -79,12 +90,13 @@ export interface RecoveryScore {
 
 export interface WhoopRecovery {
   cycle_id: number;
-  sleep_id: number;
+  /** UUID of the sleep the recovery was scored from */
+  sleep_id: string;
   user_id: number;
   created_at: string;
   updated_at: string;
-  score_state: 'SCORED' | 'PENDING_SCORE' | 'UNSCORABLE';
-  score: RecoveryScore;
+  score_state: ScoreState;
+  score?: RecoveryScore;
 }
 
 // ============================================================================
@@ -113,7 +125,8 @@ export interface WorkoutScore {
 }
 
 export interface WhoopWorkout {
-  id: number;
+  /** UUID */
+  id: string;
   user_id: number;
   created_at: string;
   updated_at: string;
@@ -121,8 +134,8 @@ export interface WhoopWorkout {
   end: string;
   timezone_offset: string;
   sport_id: number;
-  score_state: 'SCORED' | 'PENDING_SCORE' | 'UNSCORABLE';
-  score: WorkoutScore;
+  score_state: ScoreState;
+  score?: WorkoutScore;
 }
 
 // ============================================================================
@@ -142,10 +155,11 @@ export interface WhoopCycle {
   created_at: string;
   updated_at: string;
   start: string;
-  end: string;
+  /** Absent while the cycle is in progress */
+  end?: string;
   timezone_offset: string;
-  score_state: 'SCORED' | 'PENDING_SCORE' | 'UNSCORABLE';
-  score: CycleScore;
+  score_state: ScoreState;
+  score?: CycleScore;
 }
 
 // ============================================================================
@@ -164,15 +178,74 @@ export interface QueryParams {
   nextToken?: string;
 }
 
+export interface IterateOptions extends QueryParams {
+  /** Stop after this many records (the last request asks for only what is left) */
+  maxRecords?: number;
+  /** Cancels pending requests */
+  signal?: AbortSignal;
+}
+
+/**
+ * Records from a paginated endpoint, fetched one page at a time as they are consumed.
+ * Iterate `pages()` instead to get each page with the `next_token` to resume from.
+ */
+export interface RecordIterable<T> extends AsyncIterable<T> {
+  pages(): AsyncIterable<PaginatedResponse<T>>;
+}
+
+export interface FetchOptions {
+  limit?: number;
+  all?: boolean;
+  /** Read from the local store instead of the API */
+  offline?: boolean;
+  /** Fail on the first error instead of returning partial data */
+  strict?: boolean;
+  /** Called with each page of records as it arrives (for streaming output) */
+  onRecords?: (type: DataType, records: object[]) => void;
+  /** Cancels pending requests */
+  signal?: AbortSignal;
+}
+
 // ============================================================================
 // Combined Output
 // ============================================================================
 
 export type DataType = 'profile' | 'body' | 'sleep' | 'recovery' | 'workout' | 'cycle';
 
+/**
+ * An inclusive span of WHOOP days (YYYY-MM-DD)
+ */
+export interface DateWindow {
+  from: string;
+  to: string;
+}
+
+/**
+ * Resolved multi-day window, included in output for range queries
+ */
+export interface DateRange extends DateWindow {
+  days: number;
+  start: string;
+  end: string;
+}
+
+/**
+ * A data type that failed to fetch in a combined query
+ */
+export interface DataTypeError {
+  type: DataType;
+  http_status?: number;
+  message: string;
+  exit_code: number;
+}
+
 export interface CombinedOutput {
   date: string;
+  range?: DateRange;
   fetched_at: string;
+  /** Account profile the data was fetched for */
+  profile_name?: string;
+  errors?: DataTypeError[];
   profile?: WhoopProfile;
   body?: WhoopBody;
   sleep?: WhoopSleep[];
@@ -211,6 +284,16 @@ export interface EncryptedTokens {
 
 export interface AuthStatus {
   authenticated: boolean;
+  profile?: string;
   expires_at?: string;
+  /** Expired or about to expire (refreshed on the next request) */
+  expired?: boolean;
+  seconds_until_expiry?: number;
   scopes?: string[];
+  /** Scopes the CLI requests that the stored tokens lack */
+  missing_scopes?: string[];
+  has_refresh_token?: boolean;
+  token_dir?: string;
+  /** Why the stored tokens could not be read, when they exist but are locked */
+  reason?: string;
 }
@@ -0,0 +1,356 @@
+/**
+ * Persistent configuration
+ *
+ * Settings live in `config.json` in the token directory (shared by all
+ * profiles). Each setting resolves as: environment variable, then config
+ * file, then built-in default; commands apply their own flags first.
+ * Client credentials are stored encrypted with the machine key.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from 'node:fs';
+import { join } from 'node:path';
+import { getBaseDir } from '../auth/profiles.js';
+import { encrypt, decrypt, type EncryptedData } from './crypto.js';
+import { isValidTimeZone } from './date.js';
+import { WhoopError, ExitCode, ERROR_FORMATS } from './errors.js';
+import { OUTPUT_FORMATS, UNIT_SYSTEMS } from './format.js';
+import {
+  parseWakeParams,
+  WAKE_CHECKS,
+  WAKE_THRESHOLD_PARAMS,
+  WAKE_DEFAULT_PARAMS,
+} from './wake.js';
+import type { DataType } from '../types/whoop.js';
+
+const CONFIG_FILE_NAME = 'config.json';
+
+const DATA_TYPES: DataType[] = ['profile', 'body', 'sleep', 'recovery', 'workout', 'cycle'];
+
+/** Largest page WHOOP v2 collection endpoints accept */
+export const MAX_PAGE_SIZE = 25;
+
+export type ConfigKey =
+  | 'client_id'
+  | 'client_secret'
+  | 'redirect_uri'
+  | 'api_url'
+  | 'format'
+  | 'tz'
+  | 'cutoff_hour'
+  | 'units'
+  | 'types'
+  | 'limit'
+  | 'timeout'
+  | 'error_format'
+  | 'wake_weights'
+  | 'wake_cutoff'
+  | 'wake_thresholds'
+  | 'wake_defaults';
+
+export type SettingSource = 'env' | 'config' | 'default' | 'unset';
+
+interface SettingDefinition {
+  description: string;
+  env: string;
+  defaultValue?: string;
+  /** Stored encrypted and masked when listed */
+  secret?: boolean;
+  /** Returns an error message for invalid values */
+  validate?: (value: string) => string | undefined;
+}
+
+export interface ResolvedSetting {
+  key: ConfigKey;
+  value?: string;
+  source: SettingSource;
+}
+
+type ConfigFile = Partial<Record<ConfigKey, string | number | EncryptedData>>;
+
+function isUrl(value: string): string | undefined {
+  try {
+    new URL(value);
+    return undefined;
+  } catch {
+    return 'must be a URL';
+  }
+}
+
+function isIntegerInRange(min: number, max: number) {
+  return (value: string): string | undefined => {
+    const n = Number(value);
+    return /^\d+$/.test(value) && n >= min && n <= max
+      ? undefined
+      : `must be an integer from ${min} to ${max}`;
+  };
+}
+
+function isOneOf(values: readonly string[]) {
+  return (value: string): string | undefined =>
+    values.includes(value) ? undefined : `must be one of: ${values.join(', ')}`;
+}
+
+function isWakeParams(names: readonly string[]) {
+  return (value: string): string | undefined => {
+    try {
+      parseWakeParams(value, names);
+      return undefined;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  };
+}
+
+export const SETTINGS: Record<ConfigKey, SettingDefinition> = {
+  client_id: { description: 'OAuth client ID', env: 'WHOOP_CLIENT_ID', secret: true },
+  client_secret: { description: 'OAuth client secret', env: 'WHOOP_CLIENT_SECRET', secret: true },
+  redirect_uri: {
+    description: 'OAuth callback URL (default: http://localhost:<port>/callback)',
+    env: 'WHOOP_REDIRECT_URI',
+    validate: isUrl,
+  },
+  api_url: {
+    description: 'WHOOP API base URL (default: the production API)',
+    env: 'WHOOP_API_URL',
+    validate: isUrl,
+  },
+  format: {
+    description: 'Default output format for data commands',
+    env: 'WHOOP_FORMAT',
+    defaultValue: 'json',
+    validate: isOneOf(OUTPUT_FORMATS),
+  },
+  tz: {
+    description: 'IANA time zone for WHOOP days',
+    env: 'WHOOP_TZ',
+    validate: (value) => (isValidTimeZone(value) ? undefined : 'must be an IANA time zone'),
+  },
+  cutoff_hour: {
+    description: 'Local hour at which a WHOOP day starts',
+    env: 'WHOOP_CUTOFF_HOUR',
+    defaultValue: '4',
+    validate: isIntegerInRange(0, 23),
+  },
+  units: {
+    description: 'Units for pretty output',
+    env: 'WHOOP_UNITS',
+    defaultValue: 'metric',
+    validate: isOneOf(UNIT_SYSTEMS),
+  },
+  types: {
+    description: 'Data types fetched by `whoop` without type flags (comma-separated)',
+    env: 'WHOOP_TYPES',
+    validate: (value) => {
+      const invalid = value.split(',').filter((type) => !DATA_TYPES.includes(type as DataType));
+      return invalid.length === 0 && value !== ''
+        ? undefined
+        : `must be a comma-separated list of: ${DATA_TYPES.join(', ')}`;
+    },
+  },
+  limit: {
+    description: 'Default page size for data commands',
+    env: 'WHOOP_LIMIT',
+    defaultValue: '25',
+    validate: isIntegerInRange(1, MAX_PAGE_SIZE),
+  },
+  timeout: {
+    description: 'Milliseconds before an API request is abandoned',
+    env: 'WHOOP_TIMEOUT',
+    defaultValue: '30000',
+    validate: isIntegerInRange(1, 600000),
+  },
+  error_format: {
+    description: 'Error output on stderr: text, json, or auto (json when stdout is not a terminal)',
+    env: 'WHOOP_ERROR_FORMAT',
+    defaultValue: 'text',
+    validate: isOneOf(ERROR_FORMATS),
+  },
+  wake_weights: {
+    description: `Points per wake check, e.g. duration=3 (checks: ${WAKE_CHECKS.join(', ')})`,
+    env: 'WHOOP_WAKE_WEIGHTS',
+    validate: isWakeParams(WAKE_CHECKS),
+  },
+  wake_cutoff: {
+    description: 'Wake score at which the user counts as awake',
+    env: 'WHOOP_WAKE_CUTOFF',
+    defaultValue: '6',
+    validate: (value) =>
+      Number(value) > 0 && Number.isFinite(Number(value)) ? undefined : 'must be a positive number',
+  },
+  wake_thresholds: {
+    description: `How wake thresholds follow your history, e.g. durationRatio=0.6 (${WAKE_THRESHOLD_PARAMS.join(', ')})`,
+    env: 'WHOOP_WAKE_THRESHOLDS',
+    validate: isWakeParams(WAKE_THRESHOLD_PARAMS),
+  },
+  wake_defaults: {
+    description: `Wake stats assumed before there is history, e.g. avgEndMinutes=420 for 07:00 (${WAKE_DEFAULT_PARAMS.join(', ')})`,
+    env: 'WHOOP_WAKE_DEFAULTS',
+    validate: isWakeParams(WAKE_DEFAULT_PARAMS),
+  },
+};
+
+export const CONFIG_KEYS = Object.keys(SETTINGS) as ConfigKey[];
+
+let cache: ConfigFile | undefined;
+
+/**
+ * Get the path of the config file
+ */
+export function getConfigFile(): string {
+  return join(getBaseDir(), CONFIG_FILE_NAME);
+}
+
+/**
+ * Check that a string names a setting
+ */
+export function isConfigKey(key: string): key is ConfigKey {
+  return CONFIG_KEYS.includes(key as ConfigKey);
+}
+
+function assertConfigKey(key: string): asserts key is ConfigKey {
+  if (!isConfigKey(key)) {
+    throw new WhoopError(
+      `Unknown config key: ${key}. Use one of: ${CONFIG_KEYS.join(', ')}`,
+      ExitCode.INVALID_INPUT
+    );
+  }
+}
+
+/**
+ * Read the config file (cached until the next write)
+ */
+function readConfig(): ConfigFile {
+  if (cache) {
+    return cache;
+  }
+
+  const file = getConfigFile();
+  if (!existsSync(file)) {
+    cache = {};
+    return cache;
+  }
+
+  try {
+    cache = JSON.parse(readFileSync(file, 'utf8')) as ConfigFile;
+  } catch {
+    throw new WhoopError(`Invalid config file: ${file}`, ExitCode.GENERAL_ERROR);
+  }
+
+  return cache;
+}
+
+function writeConfig(config: ConfigFile): void {
+  const file = getConfigFile();
+  const dir = getBaseDir();
+
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+
+  const tempFile = `${file}.${process.pid}.tmp`;
+  writeFileSync(tempFile, JSON.stringify(config, null, 2), { mode: 0o600 });
+  renameSync(tempFile, file);
+  cache = config;
+}
+
+/**
+ * Read a setting from the config file, decrypting secrets
+ */
+function readConfigValue(key: ConfigKey): string | undefined {
+  const stored = readConfig()[key];
+
+  if (stored === undefined) {
+    return undefined;
+  }
+
+  if (typeof stored === 'object') {
+    try {
+      return decrypt(stored);
+    } catch {
+      throw new WhoopError(
+        `Could not decrypt ${key} in ${getConfigFile()}. Run: whoop config set ${key}`,
+        ExitCode.GENERAL_ERROR,
+        undefined,
+        `run: whoop config set ${key}`
+      );
+    }
+  }
+
+  return String(stored);
+}
+
+/**
+ * Resolve a setting: environment variable, then config file, then default
+ */
+export function resolveSetting(key: ConfigKey): ResolvedSetting {
+  const definition = SETTINGS[key];
+
+  const env = process.env[definition.env];
+  if (env !== undefined && env !== '') {
+    return { key, value: env, source: 'env' };
+  }
+
+  const configured = readConfigValue(key);
+  if (configured !== undefined) {
+    return { key, value: configured, source: 'config' };
+  }
+
+  if (definition.defaultValue !== undefined) {
+    return { key, value: definition.defaultValue, source: 'default' };
+  }
+
+  return { key, source: 'unset' };
+}
+
+/**
+ * Get the effective value of a setting
+ */
+export function getSetting(key: ConfigKey): string | undefined {
+  return resolveSetting(key).value;
+}
+
+/**
+ * Resolve every setting
+ */
+export function listSettings(): ResolvedSetting[] {
+  return CONFIG_KEYS.map(resolveSetting);
+}
+
+/**
+ * Check if a setting is stored encrypted and masked when listed
+ */
+export function isSecretSetting(key: ConfigKey): boolean {
+  return SETTINGS[key].secret === true;
+}
+
+/**
+ * Validate and save a setting in the config file
+ */
+export function setConfigValue(key: string, value: string): void {
+  assertConfigKey(key);
+
+  const definition = SETTINGS[key];
+  const error = value === '' ? 'cannot be empty' : definition.validate?.(value);
+
+  if (error) {
+    throw new WhoopError(`Invalid value for ${key}: ${error}`, ExitCode.INVALID_INPUT);
+  }
+
+  writeConfig({ ...readConfig(), [key]: definition.secret ? encrypt(value) : value });
+}
+
+/**
+ * Remove a setting from the config file. Returns whether it was set.
+ */
+export function unsetConfigValue(key: string): boolean {
+  assertConfigKey(key);
+
+  const config = { ...readConfig() };
+  if (config[key] === undefined) {
+    return false;
+  }
+
+  delete config[key];
+  writeConfig(config);
+  return true;
+}
@@ -2,7 +2,11 @@
  * Token encryption utilities
  *
  * Encrypts OAuth tokens at rest using AES-256-GCM.
- * The encryption key is derived from machine-specific identifiers.
+ *
+ * Version 2 (current) derives the key with scrypt from a random per-file salt
+ * and either a user passphrase or, without one, machine-specific identifiers.
+ * Version 1 used machine identifiers with a static salt; it can still be
+ * decrypted, and is replaced with version 2 the next time tokens are saved.
  */
 
 import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
@@ -12,23 +16,26 @@ const ALGORITHM = 'aes-256-gcm';
 const KEY_LENGTH = 32;
 const IV_LENGTH = 16;
 const TAG_LENGTH = 16;
-const SALT = 'whoop-cli-v1'; // Static salt for key derivation
-const CURRENT_VERSION = 1;
+const SALT_LENGTH = 16;
+const LEGACY_SALT = 'whoop-cli-v1'; // Static salt used by version 1
+const CURRENT_VERSION = 2;
 
 /**
- * Derive encryption key from machine-specific identifiers.
- * This binds the encrypted tokens to this machine.
+ * Machine-specific identifiers, which bind machine-keyed data to this machine
  */
-function deriveKey(): Buffer {
-  // Combine machine-specific identifiers
-  const machineId = [
+function getMachineId(): string {
+  return [
     hostname(),
     userInfo().username,
     process.env['HOME'] ?? process.env['USERPROFILE'] ?? '',
   ].join(':');
+}
 
-  // Derive key using scrypt
-  return scryptSync(machineId, SALT, KEY_LENGTH);
+/**
+ * Derive an encryption key using scrypt
+ */
+function deriveKey(secret: string, salt: Buffer | string): Buffer {
+  return scryptSync(secret, salt, KEY_LENGTH);
 }
 
 export interface EncryptedData {
@@ -36,13 +43,19 @@ export interface EncryptedData {
   iv: string;
   tag: string;
   version: number;
+  /** Random key derivation salt, base64 (version 2) */
+  salt?: string;
+  /** Whether the key comes from a passphrase rather than this machine (version 2) */
+  passphrase?: boolean;
 }
 
 /**
- * Encrypt data using AES-256-GCM
+ * Encrypt data using AES-256-GCM.
+ * With a passphrase the result can be decrypted on any machine that knows it.
  */
-export function encrypt(data: string): EncryptedData {
-  const key = deriveKey();
+export function encrypt(data: string, passphrase?: string): EncryptedData {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = deriveKey(passphrase ?? getMachineId(), salt);
   const iv = randomBytes(IV_LENGTH);
 
   const cipher = createCipheriv(ALGORITHM, key, iv);
@@ -57,18 +70,54 @@ export function encrypt(data: string): EncryptedData {
     iv: iv.toString('base64'),
     tag: tag.toString('base64'),
     version: CURRENT_VERSION,
+    salt: salt.toString('base64'),
+    passphrase: passphrase !== undefined,
   };
 }
 
 /**
- * Decrypt data using AES-256-GCM
+ * Check if decrypting data needs a passphrase
+ */
+export function isPassphraseProtected(data: EncryptedData): boolean {
+  return data.version === CURRENT_VERSION && data.passphrase === true;
+}
+
+/**
+ * Check if data uses an older format that should be re-encrypted
+ */
+export function isLegacyFormat(data: EncryptedData): boolean {
+  return data.version < CURRENT_VERSION;
+}
+
+/**
+ * Get the key for encrypted data of either version
  */
-export function decrypt(data: EncryptedData): string {
+function getKey(data: EncryptedData, passphrase?: string): Buffer {
+  if (data.version === 1) {
+    return deriveKey(getMachineId(), LEGACY_SALT);
+  }
+
   if (data.version !== CURRENT_VERSION) {
     throw new Error(`Unsupported encryption version: ${data.version}`);
   }
 
-  const key = deriveKey();
+  if (!data.salt) {
+    throw new Error('Missing salt');
+  }
+
+  if (data.passphrase && passphrase === undefined) {
+    throw new Error('Passphrase required');
+  }
+
+  const secret = data.passphrase && passphrase !== undefined ? passphrase : getMachineId();
+  return deriveKey(secret, Buffer.from(data.salt, 'base64'));
+}
+
+/**
+ * Decrypt data using AES-256-GCM (versions 1 and 2)
+ */
+export function decrypt(data: EncryptedData, passphrase?: string): string {
+  const key = getKey(data, passphrase);
   const iv = Buffer.from(data.iv, 'base64');
   const tag = Buffer.from(data.tag, 'base64');
 
@@ -88,9 +137,9 @@ export function decrypt(data: EncryptedData): string {
 /**
  * Test if data can be decrypted (validates machine binding)
  */
-export function canDecrypt(data: EncryptedData): boolean {
+export function canDecrypt(data: EncryptedData, passphrase?: string): boolean {
   try {
-    decrypt(data);
+    decrypt(data, passphrase);
     return true;
   } catch {
     return false;
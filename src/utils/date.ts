@@ -1,27 +1,243 @@
 /**
  * Date utilities for WHOOP API
  *
- * WHOOP uses a "WHOOP day" concept where days end at 4am local time.
- * This matches sleep patterns better than midnight boundaries.
+ * WHOOP uses a "WHOOP day" concept where days end at 4am local time
+ * (configurable with `setDayCutoffHour`). This matches sleep patterns better
+ * than midnight boundaries.
+ *
+ * "Local" means the configured time zone (`--tz` / WHOOP_TZ), falling back to
+ * the machine's zone. Records carry their own `timezone_offset`, which takes
+ * precedence when attributing them to a day.
  */
 
-const WHOOP_DAY_HOUR_CUTOFF = 4; // 4am
+import { WhoopError, ExitCode } from './errors.js';
+import type { DateWindow } from '../types/whoop.js';
+
+const DEFAULT_DAY_CUTOFF_HOUR = 4; // 4am
+
+// Relative date keywords: the window ends `offset` days before the current WHOOP day
+// and covers `days` days
+const DATE_KEYWORDS: Record<string, { offset: number; days: number }> = {
+  today: { offset: 0, days: 1 },
+  yesterday: { offset: 1, days: 1 },
+  'last-week': { offset: 0, days: 7 },
+  'last-month': { offset: 0, days: 30 },
+};
+
+let timeZone: string | undefined = process.env['WHOOP_TZ'];
+let dayCutoffHour = DEFAULT_DAY_CUTOFF_HOUR;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// ============================================================================
+// Time Zones
+// ============================================================================
 
 /**
- * Get the current WHOOP day in YYYY-MM-DD format.
- * Before 4am, returns yesterday's date.
+ * Check that a string is an IANA time zone name known to the runtime
+ */
+export function isValidTimeZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Set the time zone used for WHOOP days (undefined restores the machine's zone)
+ */
+export function setTimeZone(zone?: string): void {
+  if (zone !== undefined && !isValidTimeZone(zone)) {
+    throw new WhoopError(
+      `Invalid time zone: ${zone}. Use an IANA name such as America/New_York`,
+      ExitCode.INVALID_INPUT
+    );
+  }
+  timeZone = zone;
+}
+
+/**
+ * Get the time zone currently in effect
+ */
+export function getTimeZone(): string {
+  return timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Get the wall-clock fields of an instant in a time zone
+ */
+function getZonedParts(date: Date, zone: string): ZonedParts {
+  let formatter = formatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(zone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = Number(part.value);
+  }
+
+  return {
+    year: parts['year'] ?? 0,
+    month: parts['month'] ?? 0,
+    day: parts['day'] ?? 0,
+    hour: parts['hour'] ?? 0,
+    minute: parts['minute'] ?? 0,
+    second: parts['second'] ?? 0,
+  };
+}
+
+/**
+ * Get a time zone's UTC offset in minutes at a given instant (east is positive)
+ */
+export function getTimeZoneOffset(date: Date, zone: string = getTimeZone()): number {
+  const p = getZonedParts(date, zone);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((wall - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Get the instant at which a wall-clock hour occurs on a date in a time zone.
+ * Hours that don't exist (skipped by a DST change) resolve to an adjacent valid instant.
  */
-export function getWhoopDay(now: Date = new Date()): string {
-  const hour = now.getHours();
+export function zonedTimeToUtc(dateStr: string, hour: number, zone: string = getTimeZone()): Date {
+  const wall = Date.parse(`${dateStr}T00:00:00Z`) + hour * 3600000;
 
-  // Before 4am, we're still on "yesterday" in WHOOP terms
-  if (hour < WHOOP_DAY_HOUR_CUTOFF) {
-    const yesterday = new Date(now);
-    yesterday.setDate(yesterday.getDate() - 1);
-    return formatDate(yesterday);
+  // Guess with the offset at the wall time, then correct if the offset differs there
+  let utc = wall - getTimeZoneOffset(new Date(wall), zone) * 60000;
+  utc = wall - getTimeZoneOffset(new Date(utc), zone) * 60000;
+
+  return new Date(utc);
+}
+
+/**
+ * Parse a record's `timezone_offset` (e.g. "-05:00", "+0530", "Z") into minutes
+ */
+export function parseTimezoneOffset(offset: string): number | undefined {
+  if (offset === 'Z') {
+    return 0;
+  }
+
+  const match = /^([+-])(\d{2}):?(\d{2})$/.exec(offset);
+  if (!match) {
+    return undefined;
+  }
+
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * Get a timestamp's wall-clock fields in a record's own offset, or the configured zone
+ */
+function getLocalParts(timestamp: string, timezoneOffset?: string): ZonedParts {
+  const date = new Date(timestamp);
+  const offset = timezoneOffset !== undefined ? parseTimezoneOffset(timezoneOffset) : undefined;
+
+  if (offset === undefined) {
+    return getZonedParts(date, getTimeZone());
+  }
+
+  const shifted = new Date(date.getTime() + offset * 60000);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    second: shifted.getUTCSeconds(),
+  };
+}
+
+/**
+ * Format wall-clock fields as YYYY-MM-DD, moving back a day before the cutoff hour
+ */
+function toWhoopDay(parts: ZonedParts): string {
+  const date = [
+    String(parts.year).padStart(4, '0'),
+    String(parts.month).padStart(2, '0'),
+    String(parts.day).padStart(2, '0'),
+  ].join('-');
+
+  // Before the cutoff (4am by default), we're still on "yesterday" in WHOOP terms
+  return parts.hour < dayCutoffHour ? addDays(date, -1) : date;
+}
+
+// ============================================================================
+// WHOOP Days
+// ============================================================================
+
+/**
+ * Set the local hour at which a WHOOP day starts (undefined restores 4am)
+ */
+export function setDayCutoffHour(hour?: number): void {
+  if (hour !== undefined && (!Number.isInteger(hour) || hour < 0 || hour > 23)) {
+    throw new WhoopError(
+      `Invalid cutoff hour: ${hour}. Use an integer from 0 to 23`,
+      ExitCode.INVALID_INPUT
+    );
   }
+  dayCutoffHour = hour ?? DEFAULT_DAY_CUTOFF_HOUR;
+}
 
-  return formatDate(now);
+/**
+ * Get the local hour at which a WHOOP day starts
+ */
+export function getDayCutoffHour(): number {
+  return dayCutoffHour;
+}
+
+/**
+ * Get the current WHOOP day in YYYY-MM-DD format.
+ * Before the cutoff hour (in the configured time zone), returns yesterday's date.
+ */
+export function getWhoopDay(now: Date = new Date(), zone: string = getTimeZone()): string {
+  return toWhoopDay(getZonedParts(now, zone));
+}
+
+/**
+ * Get the WHOOP day a record belongs to, using its own `timezone_offset`
+ * when present (e.g. while travelling) and the configured time zone otherwise
+ */
+export function getRecordDay(timestamp: string, timezoneOffset?: string): string {
+  return toWhoopDay(getLocalParts(timestamp, timezoneOffset));
+}
+
+/**
+ * Get the local hour (0-23) of a record timestamp, like `getRecordDay`
+ */
+export function getRecordHour(timestamp: string, timezoneOffset?: string): number {
+  return getLocalParts(timestamp, timezoneOffset).hour;
+}
+
+/**
+ * Get the local time of day of a record timestamp in minutes since midnight
+ * (fractional, e.g. 390.5 for 06:30:30), like `getRecordDay`
+ */
+export function getRecordMinutes(timestamp: string, timezoneOffset?: string): number {
+  const parts = getLocalParts(timestamp, timezoneOffset);
+  return parts.hour * 60 + parts.minute + parts.second / 60;
 }
 
 /**
@@ -53,27 +269,156 @@ export function validateISODate(dateStr: string): boolean {
   }
 
   // Check that the parsed date matches the input
-  // (catches invalid dates like 2026-02-30 which become 2026-03-02)
-  return date.getFullYear() === year && date.getMonth() + 1 === month && date.getDate() === day;
+  // (catches invalid dates like 2026-02-30 which become 2026-03-02).
+  // Date-only strings parse as UTC midnight, so compare in UTC.
+  return (
+    date.getUTCFullYear() === year && date.getUTCMonth() + 1 === month && date.getUTCDate() === day
+  );
 }
 
 /**
  * Get start and end timestamps for a WHOOP day.
- * Start: 4am on the given date
- * End: 4am on the next date
+ * Start: the cutoff hour (4am by default) on the given date
+ * End: the cutoff hour on the next date
+ *
+ * Both are local times in the configured time zone, so days spanning a DST change
+ * are 23 or 25 hours long.
  */
-export function getDateRange(dateStr: string): { start: string; end: string } {
-  const date = new Date(dateStr);
+export function getDateRange(
+  dateStr: string,
+  zone: string = getTimeZone()
+): { start: string; end: string } {
+  return {
+    start: zonedTimeToUtc(dateStr, dayCutoffHour, zone).toISOString(),
+    end: zonedTimeToUtc(addDays(dateStr, 1), dayCutoffHour, zone).toISOString(),
+  };
+}
+
+/**
+ * Add (or subtract) whole days to a YYYY-MM-DD date
+ */
+export function addDays(dateStr: string, days: number): string {
+  // Calendar arithmetic in UTC, so neither DST nor the machine's zone can shift the day
+  const date = new Date(`${dateStr}T12:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Resolve a date argument to a window of WHOOP days: a single day for ISO dates,
+ * `today` and `yesterday`, or the days ending today for `last-week` (7) and
+ * `last-month` (30)
+ */
+function resolveDateInput(input: string, now: Date): DateWindow {
+  const keyword = DATE_KEYWORDS[input];
+  if (keyword) {
+    const to = addDays(getWhoopDay(now), -keyword.offset);
+    return { from: addDays(to, -(keyword.days - 1)), to };
+  }
+
+  if (!validateISODate(input)) {
+    throw new WhoopError(
+      `Invalid date format: ${input}. Use YYYY-MM-DD or one of: ${Object.keys(DATE_KEYWORDS).join(', ')}`,
+      ExitCode.INVALID_INPUT
+    );
+  }
 
-  // Start at 4am on the given date
-  date.setHours(WHOOP_DAY_HOUR_CUTOFF, 0, 0, 0);
-  const start = date.toISOString();
+  return { from: input, to: input };
+}
+
+/**
+ * Resolve a date argument to YYYY-MM-DD.
+ * Accepts ISO dates or a single-day keyword (today, yesterday); the window
+ * keywords (last-week, last-month) are rejected.
+ */
+export function resolveDate(input: string, now: Date = new Date()): string {
+  const { from, to } = resolveDateInput(input, now);
 
-  // End at 4am the next day
-  date.setDate(date.getDate() + 1);
-  const end = date.toISOString();
+  if (from !== to) {
+    throw new WhoopError(
+      `${input} covers several days; use YYYY-MM-DD, today or yesterday`,
+      ExitCode.INVALID_INPUT
+    );
+  }
 
-  return { start, end };
+  return from;
+}
+
+/**
+ * Resolve --date / --from / --to / --days options into an inclusive window of WHOOP days.
+ *
+ * - `date` selects a single day (or the window of `last-week` / `last-month`) and
+ *   can't be combined with the others
+ * - `from` and `to` take the first and last day of a keyword's window
+ * - `days` counts forward from `from`, or back from `to` (default: today)
+ * - Without any options, the window is the current WHOOP day
+ */
+export function resolveDateWindow(
+  options: { date?: string; from?: string; to?: string; days?: number },
+  now: Date = new Date()
+): DateWindow {
+  const { date, days } = options;
+
+  if (date && (options.from || options.to || days !== undefined)) {
+    throw new WhoopError(
+      '--date cannot be combined with --from, --to or --days',
+      ExitCode.INVALID_INPUT
+    );
+  }
+
+  if (days !== undefined && (!Number.isInteger(days) || days < 1)) {
+    throw new WhoopError('--days must be a positive integer', ExitCode.INVALID_INPUT);
+  }
+
+  if (options.from && options.to && days !== undefined) {
+    throw new WhoopError('Use at most two of --from, --to and --days', ExitCode.INVALID_INPUT);
+  }
+
+  if (date) {
+    return resolveDateInput(date, now);
+  }
+
+  let from = options.from ? resolveDateInput(options.from, now).from : undefined;
+  let to = options.to ? resolveDateInput(options.to, now).to : undefined;
+
+  if (days !== undefined) {
+    if (from) {
+      to = addDays(from, days - 1);
+    } else {
+      to = to ?? getWhoopDay(now);
+      from = addDays(to, -(days - 1));
+    }
+  }
+
+  to = to ?? getWhoopDay(now);
+  from = from ?? to;
+
+  if (from > to) {
+    throw new WhoopError(`Invalid range: ${from} is after ${to}`, ExitCode.INVALID_INPUT);
+  }
+
+  return { from, to };
+}
+
+/**
+ * Get start and end timestamps spanning a window of WHOOP days.
+ * Start: the cutoff hour on the first day
+ * End: the cutoff hour the day after the last day
+ */
+export function getWindowRange(window: DateWindow): { start: string; end: string } {
+  return {
+    start: getDateRange(window.from).start,
+    end: getDateRange(window.to).end,
+  };
+}
+
+/**
+ * Count the WHOOP days in a window (inclusive)
+ */
+export function countDays(window: DateWindow): number {
+  const from = new Date(`${window.from}T12:00:00Z`).getTime();
+  const to = new Date(`${window.to}T12:00:00Z`).getTime();
+  return Math.round((to - from) / 86400000) + 1;
 }
 
 /**
@@ -96,6 +441,58 @@ export function formatDuration(ms: number): string {
   return `${minutes}m`;
 }
 
+const INTERVAL_UNITS = { s: 1000, m: 60000, h: 3600000 } as const;
+
+/**
+ * Parse an interval like `30s`, `5m` or `1h` into milliseconds
+ */
+export function parseInterval(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)(s|m|h)$/.exec(value.trim());
+  const ms = match ? Number(match[1]) * INTERVAL_UNITS[match[2] as keyof typeof INTERVAL_UNITS] : 0;
+
+  if (ms <= 0) {
+    throw new WhoopError(
+      `Invalid interval: ${value}. Use a number with s, m or h, e.g. 5m.`,
+      ExitCode.INVALID_INPUT
+    );
+  }
+  return ms;
+}
+
+/**
+ * Parse a deadline: HH:MM today in the configured time zone, or an ISO timestamp.
+ * A time of day that has already passed is not moved to tomorrow.
+ */
+export function parseDeadline(
+  value: string,
+  now: Date = new Date(),
+  zone: string = getTimeZone()
+): Date {
+  const clock = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+
+  if (clock) {
+    const hour = Number(clock[1]);
+    const minute = Number(clock[2]);
+
+    if (hour < 24 && minute < 60) {
+      const p = getZonedParts(now, zone);
+      const today = [
+        String(p.year).padStart(4, '0'),
+        String(p.month).padStart(2, '0'),
+        String(p.day).padStart(2, '0'),
+      ].join('-');
+      return zonedTimeToUtc(today, hour + minute / 60, zone);
+    }
+  } else if (/^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value))) {
+    return new Date(value);
+  }
+
+  throw new WhoopError(
+    `Invalid deadline: ${value}. Use HH:MM or an ISO timestamp.`,
+    ExitCode.INVALID_INPUT
+  );
+}
+
 /**
  * Parse a date string or return today's WHOOP day
  */
@@ -105,7 +502,10 @@ export function parseDateOrDefault(dateStr?: string): string {
   }
 
   if (!validateISODate(dateStr)) {
-    throw new Error(`Invalid date format: ${dateStr}. Use YYYY-MM-DD.`);
+    throw new WhoopError(
+      `Invalid date format: ${dateStr}. Use YYYY-MM-DD.`,
+      ExitCode.INVALID_INPUT
+    );
   }
 
   return dateStr;
@@ -2,29 +2,46 @@
  * Error handling utilities
  */
 
+import type { SchemaDrift } from '../api/schema.js';
+
 export enum ExitCode {
   SUCCESS = 0,
   GENERAL_ERROR = 1,
   AUTH_ERROR = 2,
   RATE_LIMIT = 3,
+  TIMEOUT = 4,
+  NETWORK_ERROR = 5,
+  INVALID_INPUT = 6,
+  MISSING_SCOPE = 7,
+  NOT_FOUND = 8,
+  SCHEMA_ERROR = 9,
+  WAKE_DEADLINE = 10,
 }
 
 export class WhoopError extends Error {
   public readonly exitCode: ExitCode;
   public readonly httpStatus?: number;
+  /** Next step for the user or an agent, overriding the default for the exit code */
+  public readonly hint?: string;
 
-  constructor(message: string, exitCode: ExitCode = ExitCode.GENERAL_ERROR, httpStatus?: number) {
+  constructor(
+    message: string,
+    exitCode: ExitCode = ExitCode.GENERAL_ERROR,
+    httpStatus?: number,
+    hint?: string
+  ) {
     super(message);
     this.name = 'WhoopError';
     this.exitCode = exitCode;
     this.httpStatus = httpStatus;
+    this.hint = hint;
     Error.captureStackTrace(this, this.constructor);
   }
 }
 
 export class AuthError extends WhoopError {
-  constructor(message: string) {
-    super(message, ExitCode.AUTH_ERROR);
+  constructor(message: string, hint?: string) {
+    super(message, ExitCode.AUTH_ERROR, undefined, hint);
     this.name = 'AuthError';
   }
 }
@@ -39,7 +56,118 @@ export class RateLimitError extends WhoopError {
   }
 }
 
+export class TimeoutError extends WhoopError {
+  public readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number) {
+    super(message, ExitCode.TIMEOUT);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class SchemaError extends WhoopError {
+  public readonly drift: SchemaDrift;
+
+  constructor(message: string, drift: SchemaDrift) {
+    super(message, ExitCode.SCHEMA_ERROR);
+    this.name = 'SchemaError';
+    this.drift = drift;
+  }
+}
+
+// ============================================================================
+// Error Output
+// ============================================================================
+
+/** `auto` picks `json` when stdout is not a terminal */
+export const ERROR_FORMATS = ['text', 'json', 'auto'] as const;
+export type ErrorFormat = (typeof ERROR_FORMATS)[number];
+
+/**
+ * Machine-readable description of an error, written to stderr with `--error-format json`
+ */
+export interface ErrorReport {
+  error: string;
+  code: keyof typeof ExitCode;
+  exit_code: ExitCode;
+  http_status: number | null;
+  retry_after: number | null;
+  hint: string | null;
+}
+
+const DEFAULT_HINTS: Partial<Record<ExitCode, string>> = {
+  [ExitCode.AUTH_ERROR]: 'run: whoop auth login',
+  [ExitCode.RATE_LIMIT]: 'wait a minute, then retry',
+  [ExitCode.TIMEOUT]: 'retry, or raise --timeout',
+  [ExitCode.NETWORK_ERROR]: 'check the network connection, then retry',
+  [ExitCode.INVALID_INPUT]: 'run: whoop --help',
+  [ExitCode.MISSING_SCOPE]: 'run: whoop auth login (to grant the missing scopes)',
+  [ExitCode.NOT_FOUND]: 'check the ID or date',
+  [ExitCode.SCHEMA_ERROR]: 'rerun without --strict-schema to accept the data with warnings',
+  [ExitCode.WAKE_DEADLINE]: 'not awake yet: rerun later or extend --until',
+};
+
+let errorFormat: 'text' | 'json' = 'text';
+
+/**
+ * Set how handleError writes errors to stderr
+ */
+export function setErrorFormat(format: ErrorFormat): void {
+  errorFormat = format === 'auto' ? (process.stdout.isTTY ? 'text' : 'json') : format;
+}
+
+/**
+ * Get the error output format in effect (`auto` already resolved)
+ */
+export function getErrorFormat(): 'text' | 'json' {
+  return errorFormat;
+}
+
+function getHint(error: WhoopError): string | null {
+  if (error.hint !== undefined) {
+    return error.hint;
+  }
+
+  if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+    return `wait ${error.retryAfter}s, then retry`;
+  }
+
+  return DEFAULT_HINTS[error.exitCode] ?? null;
+}
+
+/**
+ * Describe an error for machine consumption
+ */
+export function toErrorReport(error: unknown): ErrorReport {
+  if (error instanceof WhoopError) {
+    return {
+      error: error.message,
+      code: ExitCode[error.exitCode] as keyof typeof ExitCode,
+      exit_code: error.exitCode,
+      http_status: error.httpStatus ?? null,
+      retry_after: error instanceof RateLimitError ? (error.retryAfter ?? null) : null,
+      hint: getHint(error),
+    };
+  }
+
+  return {
+    error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    code: 'GENERAL_ERROR',
+    exit_code: ExitCode.GENERAL_ERROR,
+    http_status: null,
+    retry_after: null,
+    hint: null,
+  };
+}
+
 export function handleError(error: unknown): never {
+  if (errorFormat === 'json') {
+    const report = toErrorReport(error);
+    console.error(JSON.stringify(report));
+    process.exit(report.exit_code);
+  }
+
   if (error instanceof WhoopError) {
     console.error(`Error: ${error.message}`);
     if (error instanceof RateLimitError && error.retryAfter) {
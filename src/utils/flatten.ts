@@ -0,0 +1,231 @@
+/**
+ * Flattening of WHOOP records into tabular rows
+ *
+ * Each data type has a fixed column list, so CSV/TSV headers are stable
+ * regardless of which fields a particular record happens to include.
+ * Nested fields use dotted paths (e.g. `score.stage_summary.total_rem_sleep_time_milli`)
+ * and keep the API's units, which are encoded in the field names.
+ */
+
+import type { CombinedOutput, DataType } from '../types/whoop.js';
+
+export type CellValue = string | number | boolean | null;
+
+const SLEEP_COLUMNS = [
+  'id',
+  'user_id',
+  'created_at',
+  'updated_at',
+  'start',
+  'end',
+  'timezone_offset',
+  'nap',
+  'score_state',
+  'score.stage_summary.total_in_bed_time_milli',
+  'score.stage_summary.total_awake_time_milli',
+  'score.stage_summary.total_no_data_time_milli',
+  'score.stage_summary.total_light_sleep_time_milli',
+  'score.stage_summary.total_slow_wave_sleep_time_milli',
+  'score.stage_summary.total_rem_sleep_time_milli',
+  'score.stage_summary.sleep_cycle_count',
+  'score.stage_summary.disturbance_count',
+  'score.sleep_needed.baseline_milli',
+  'score.sleep_needed.need_from_sleep_debt_milli',
+  'score.sleep_needed.need_from_recent_strain_milli',
+  'score.sleep_needed.need_from_recent_nap_milli',
+  'score.respiratory_rate',
+  'score.sleep_performance_percentage',
+  'score.sleep_consistency_percentage',
+  'score.sleep_efficiency_percentage',
+];
+
+const RECOVERY_COLUMNS = [
+  'cycle_id',
+  'sleep_id',
+  'user_id',
+  'created_at',
+  'updated_at',
+  'score_state',
+  'score.user_calibrating',
+  'score.recovery_score',
+  'score.resting_heart_rate',
+  'score.hrv_rmssd_milli',
+  'score.spo2_percentage',
+  'score.skin_temp_celsius',
+];
+
+const WORKOUT_COLUMNS = [
+  'id',
+  'user_id',
+  'created_at',
+  'updated_at',
+  'start',
+  'end',
+  'timezone_offset',
+  'sport_id',
+  'score_state',
+  'score.strain',
+  'score.average_heart_rate',
+  'score.max_heart_rate',
+  'score.kilojoule',
+  'score.percent_recorded',
+  'score.distance_meter',
+  'score.altitude_gain_meter',
+  'score.altitude_change_meter',
+  'score.zone_duration.zone_zero_milli',
+  'score.zone_duration.zone_one_milli',
+  'score.zone_duration.zone_two_milli',
+  'score.zone_duration.zone_three_milli',
+  'score.zone_duration.zone_four_milli',
+  'score.zone_duration.zone_five_milli',
+];
+
+const CYCLE_COLUMNS = [
+  'id',
+  'user_id',
+  'created_at',
+  'updated_at',
+  'start',
+  'end',
+  'timezone_offset',
+  'score_state',
+  'score.strain',
+  'score.kilojoule',
+  'score.average_heart_rate',
+  'score.max_heart_rate',
+];
+
+export const COLUMNS: Record<DataType, string[]> = {
+  profile: ['user_id', 'email', 'first_name', 'last_name'],
+  body: ['height_meter', 'weight_kilogram', 'max_heart_rate'],
+  sleep: SLEEP_COLUMNS,
+  recovery: RECOVERY_COLUMNS,
+  workout: WORKOUT_COLUMNS,
+  cycle: CYCLE_COLUMNS,
+};
+
+// Row order for combined output
+const TYPE_ORDER: DataType[] = ['profile', 'body', 'sleep', 'recovery', 'workout', 'cycle'];
+
+export interface TypedRecord {
+  type: DataType;
+  record: object;
+}
+
+/**
+ * Read a dotted path from a record
+ */
+function getPath(record: object, path: string): unknown {
+  let value: unknown = record;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Flatten a record into its type's columns (missing fields become null)
+ */
+export function flattenRecord(type: DataType, record: object): Record<string, CellValue> {
+  const row: Record<string, CellValue> = {};
+
+  for (const column of COLUMNS[type]) {
+    const value = getPath(record, column);
+    row[column] =
+      typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+        ? value
+        : null;
+  }
+
+  return row;
+}
+
+/**
+ * List every record in combined output, one entry per row
+ */
+export function listRecords(data: CombinedOutput): TypedRecord[] {
+  const records: TypedRecord[] = [];
+
+  for (const type of TYPE_ORDER) {
+    const value = data[type];
+    if (!value) continue;
+
+    for (const record of Array.isArray(value) ? value : [value]) {
+      records.push({ type, record });
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Escape a cell for CSV (RFC 4180) or TSV
+ */
+function escapeCell(value: CellValue, delimiter: string): string {
+  if (value === null) {
+    return '';
+  }
+
+  const text = String(value);
+
+  if (delimiter === '\t') {
+    return text.replace(/[\t\r\n]+/g, ' ');
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format combined output as delimited text with a header row.
+ * Columns are `type` (and `profile_name`, when set) followed by the columns
+ * of each type present, in a fixed order.
+ */
+export function formatDelimited(data: CombinedOutput, delimiter: ',' | '\t'): string {
+  const records = listRecords(data);
+  const types = TYPE_ORDER.filter((type) => data[type] !== undefined);
+
+  const columns: string[] = [];
+  for (const type of types) {
+    for (const column of COLUMNS[type]) {
+      if (!columns.includes(column)) columns.push(column);
+    }
+  }
+
+  const profile = data.profile_name !== undefined ? [data.profile_name] : [];
+  const lines = [['type', ...(profile.length ? ['profile_name'] : []), ...columns].join(delimiter)];
+
+  for (const { type, record } of records) {
+    const row = flattenRecord(type, record);
+    const cells = [
+      type,
+      ...profile.map((name) => escapeCell(name, delimiter)),
+      ...columns.map((column) => escapeCell(row[column] ?? null, delimiter)),
+    ];
+    lines.push(cells.join(delimiter));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format one record as an NDJSON line
+ */
+export function formatNdjsonRecord(type: DataType, record: object, profileName?: string): string {
+  return JSON.stringify({
+    type,
+    ...(profileName !== undefined && { profile_name: profileName }),
+    ...record,
+  });
+}
+
+/**
+ * Format combined output as NDJSON, one record per line
+ */
+export function formatNdjson(data: CombinedOutput): string {
+  return listRecords(data)
+    .map(({ type, record }) => formatNdjsonRecord(type, record, data.profile_name))
+    .join('\n');
+}
@@ -3,7 +3,63 @@
  */
 
 import { formatDuration } from './date.js';
-import type { CombinedOutput, WhoopRecovery, WhoopSleep } from '../types/whoop.js';
+import { WhoopError, ExitCode } from './errors.js';
+import { formatDelimited, formatNdjson } from './flatten.js';
+import type {
+  CombinedOutput,
+  SleepStages,
+  WhoopBody,
+  WhoopRecovery,
+  WhoopSleep,
+} from '../types/whoop.js';
+
+export type OutputFormat = 'json' | 'pretty' | 'csv' | 'tsv' | 'ndjson';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'pretty', 'csv', 'tsv', 'ndjson'];
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial'];
+
+// Units for pretty output; JSON and delimited output keep the API's metric values
+let units: UnitSystem = 'metric';
+
+/**
+ * Set the units used in pretty output (undefined restores metric)
+ */
+export function setUnits(system?: string): void {
+  if (system !== undefined && !UNIT_SYSTEMS.includes(system as UnitSystem)) {
+    throw new WhoopError(
+      `Invalid units: ${system}. Use one of: ${UNIT_SYSTEMS.join(', ')}`,
+      ExitCode.INVALID_INPUT
+    );
+  }
+  units = (system as UnitSystem | undefined) ?? 'metric';
+}
+
+/**
+ * Get the units used in pretty output
+ */
+export function getUnits(): UnitSystem {
+  return units;
+}
+
+/**
+ * Format a field that should be a number. Records that drift from the schema
+ * are passed through unless --strict-schema, so any field may be missing.
+ */
+function formatValue(value: unknown, format: (n: number) => string): string {
+  return typeof value === 'number' && Number.isFinite(value) ? format(value) : 'n/a';
+}
+
+/**
+ * Format a temperature in the configured units
+ */
+function formatTemperature(celsius: number): string {
+  return units === 'imperial'
+    ? `${((celsius * 9) / 5 + 32).toFixed(1)}°F`
+    : `${celsius.toFixed(1)}°C`;
+}
 
 /**
  * Get recovery zone color based on score
@@ -32,19 +88,23 @@ function formatRecovery(recovery: WhoopRecovery[]): string[] {
   }
 
   const score = latest.score;
-  const { zone, emoji } = getRecoveryZone(score.recovery_score);
+  const recoveryScore = formatValue(score.recovery_score, (n) => {
+    const { zone, emoji } = getRecoveryZone(n);
+    return `${n}% ${emoji} (${zone})`;
+  });
 
-  lines.push(`🔋 Recovery: ${score.recovery_score}% ${emoji} (${zone})`);
+  lines.push(`🔋 Recovery: ${recoveryScore}`);
   lines.push(
-    `💓 HRV: ${Math.round(score.hrv_rmssd_milli)}ms | RHR: ${score.resting_heart_rate}bpm`
+    `💓 HRV: ${formatValue(score.hrv_rmssd_milli, (n) => `${Math.round(n)}ms`)} | ` +
+      `RHR: ${formatValue(score.resting_heart_rate, (n) => `${n}bpm`)}`
   );
 
   if (score.spo2_percentage) {
-    lines.push(`🫁 SpO2: ${score.spo2_percentage}%`);
+    lines.push(`🫁 SpO2: ${formatValue(score.spo2_percentage, (n) => `${n}%`)}`);
   }
 
   if (score.skin_temp_celsius) {
-    lines.push(`🌡️  Skin Temp: ${score.skin_temp_celsius.toFixed(1)}°C`);
+    lines.push(`🌡️  Skin Temp: ${formatValue(score.skin_temp_celsius, formatTemperature)}`);
   }
 
   return lines;
@@ -72,23 +132,25 @@ function formatSleep(sleep: WhoopSleep[]): string[] {
   }
 
   const score = latest.score;
-  const stages = score.stage_summary;
+  // A drifted record may lack the stage summary
+  const stages = (score.stage_summary as Partial<SleepStages> | undefined) ?? {};
 
   const totalSleep =
-    stages.total_light_sleep_time_milli +
-    stages.total_slow_wave_sleep_time_milli +
-    stages.total_rem_sleep_time_milli;
+    (stages.total_light_sleep_time_milli ?? NaN) +
+    (stages.total_slow_wave_sleep_time_milli ?? NaN) +
+    (stages.total_rem_sleep_time_milli ?? NaN);
+  const efficiency = formatValue(score.sleep_efficiency_percentage, (n) => `${Math.round(n)}%`);
 
+  lines.push(`😴 Sleep: ${formatValue(totalSleep, formatDuration)} (${efficiency} efficiency)`);
   lines.push(
-    `😴 Sleep: ${formatDuration(totalSleep)} (${Math.round(score.sleep_efficiency_percentage)}% efficiency)`
+    `   Performance: ${formatValue(score.sleep_performance_percentage, (n) => `${Math.round(n)}%`)}`
   );
-  lines.push(`   Performance: ${Math.round(score.sleep_performance_percentage)}%`);
 
   // Sleep stages breakdown
-  lines.push(`   💤 Light: ${formatDuration(stages.total_light_sleep_time_milli)}`);
-  lines.push(`   🌊 Deep: ${formatDuration(stages.total_slow_wave_sleep_time_milli)}`);
-  lines.push(`   🧠 REM: ${formatDuration(stages.total_rem_sleep_time_milli)}`);
-  lines.push(`   👀 Awake: ${formatDuration(stages.total_awake_time_milli)}`);
+  lines.push(`   💤 Light: ${formatValue(stages.total_light_sleep_time_milli, formatDuration)}`);
+  lines.push(`   🌊 Deep: ${formatValue(stages.total_slow_wave_sleep_time_milli, formatDuration)}`);
+  lines.push(`   🧠 REM: ${formatValue(stages.total_rem_sleep_time_milli, formatDuration)}`);
+  lines.push(`   👀 Awake: ${formatValue(stages.total_awake_time_milli, formatDuration)}`);
 
   if (naps.length > 0) {
     lines.push(`   💤 Naps: ${naps.length}`);
@@ -114,9 +176,11 @@ function formatWorkouts(data: CombinedOutput): string[] {
   for (const workout of workouts) {
     if (!workout.score) continue;
     const score = workout.score;
-    const duration = new Date(workout.end).getTime() - new Date(workout.start).getTime();
+    const duration = Date.parse(workout.end) - Date.parse(workout.start);
     lines.push(
-      `   🔥 Strain: ${score.strain.toFixed(1)} | ${formatDuration(duration)} | ${Math.round(score.kilojoule / 4.184)} cal`
+      `   🔥 Strain: ${formatValue(score.strain, (n) => n.toFixed(1))} | ` +
+        `${formatValue(duration, formatDuration)} | ` +
+        `${formatValue(score.kilojoule, (n) => `${Math.round(n / 4.184)} cal`)}`
     );
   }
 
@@ -139,11 +203,31 @@ function formatCycle(data: CombinedOutput): string[] {
     return lines;
   }
 
-  lines.push(`🔥 Daily Strain: ${latest.score.strain.toFixed(1)}`);
+  lines.push(`🔥 Daily Strain: ${formatValue(latest.score.strain, (n) => n.toFixed(1))}`);
 
   return lines;
 }
 
+/**
+ * Format body measurements for pretty output
+ */
+function formatBody(body: WhoopBody): string[] {
+  const maxHr = formatValue(body.max_heart_rate, (n) => `${n}bpm`);
+
+  if (units === 'imperial') {
+    const height = formatValue(body.height_meter, (n) => {
+      const inches = Math.round(n / 0.0254);
+      return `${Math.floor(inches / 12)}'${inches % 12}"`;
+    });
+    const weight = formatValue(body.weight_kilogram, (n) => `${Math.round(n / 0.45359237)} lb`);
+    return [`📏 Height: ${height} | Weight: ${weight} | Max HR: ${maxHr}`];
+  }
+
+  const height = formatValue(body.height_meter, (n) => `${n.toFixed(2)} m`);
+  const weight = formatValue(body.weight_kilogram, (n) => `${n.toFixed(1)} kg`);
+  return [`📏 Height: ${height} | Weight: ${weight} | Max HR: ${maxHr}`];
+}
+
 /**
  * Format combined output as human-readable text
  */
@@ -151,7 +235,11 @@ export function formatPretty(data: CombinedOutput): string {
   const lines: string[] = [];
 
   // Header
-  lines.push(`💪 WHOOP Data for ${data.date}`);
+  if (data.range) {
+    lines.push(`💪 WHOOP Data for ${data.range.from} → ${data.range.to} (${data.range.days} days)`);
+  } else {
+    lines.push(`💪 WHOOP Data for ${data.date}`);
+  }
   lines.push('━'.repeat(40));
 
   // Recovery
@@ -174,6 +262,16 @@ export function formatPretty(data: CombinedOutput): string {
     lines.push(...formatCycle(data));
   }
 
+  // Body measurements
+  if (data.body) {
+    lines.push(...formatBody(data.body));
+  }
+
+  // Types that failed in a partial result
+  for (const error of data.errors ?? []) {
+    lines.push(`⚠️  ${error.type}: ${error.message}`);
+  }
+
   return lines.join('\n');
 }
 
@@ -186,20 +284,22 @@ export function formatSummary(data: CombinedOutput): string {
   // Recovery
   const recovery = data.recovery?.[0]?.score;
   if (recovery) {
-    parts.push(`Recovery: ${recovery.recovery_score}%`);
-    parts.push(`HRV: ${Math.round(recovery.hrv_rmssd_milli)}ms`);
+    parts.push(`Recovery: ${formatValue(recovery.recovery_score, (n) => `${n}%`)}`);
+    parts.push(`HRV: ${formatValue(recovery.hrv_rmssd_milli, (n) => `${Math.round(n)}ms`)}`);
   }
 
   // Sleep
   const sleep = data.sleep?.find((s) => !s.nap)?.score;
   if (sleep) {
-    parts.push(`Sleep: ${Math.round(sleep.sleep_performance_percentage)}%`);
+    parts.push(
+      `Sleep: ${formatValue(sleep.sleep_performance_percentage, (n) => `${Math.round(n)}%`)}`
+    );
   }
 
   // Strain (from cycle)
   const cycle = data.cycle?.[0]?.score;
   if (cycle) {
-    parts.push(`Strain: ${cycle.strain.toFixed(1)}`);
+    parts.push(`Strain: ${formatValue(cycle.strain, (n) => n.toFixed(1))}`);
   }
 
   if (parts.length === 0) {
@@ -208,3 +308,21 @@ export function formatSummary(data: CombinedOutput): string {
 
   return parts.join(' | ');
 }
+
+/**
+ * Format combined output in the requested format
+ */
+export function formatOutput(data: CombinedOutput, format: OutputFormat): string {
+  switch (format) {
+    case 'pretty':
+      return formatPretty(data);
+    case 'csv':
+      return formatDelimited(data, ',');
+    case 'tsv':
+      return formatDelimited(data, '\t');
+    case 'ndjson':
+      return formatNdjson(data);
+    default:
+      return JSON.stringify(data, null, 2);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Interactive prompts
+ *
+ * Prompts are written to stderr so stdout stays clean for data output.
+ */
+
+import { createInterface } from 'node:readline';
+import { Writable } from 'node:stream';
+import { WhoopError, ExitCode } from './errors.js';
+
+/**
+ * Ask a question and read one line from stdin
+ */
+function ask(question: string, hidden: boolean): Promise<string> {
+  let muted = false;
+
+  // Echo through stderr, dropping keystrokes while reading a hidden answer
+  const output = new Writable({
+    write(chunk: Buffer, _encoding, callback): void {
+      if (!muted) {
+        process.stderr.write(chunk);
+      }
+      callback();
+    },
+  });
+
+  const rl = createInterface({ input: process.stdin, output, terminal: hidden });
+
+  return new Promise<string>((resolve, reject) => {
+    rl.on('close', () => reject(new WhoopError('No input provided', ExitCode.INVALID_INPUT)));
+
+    rl.question(question, (answer) => {
+      if (hidden) {
+        process.stderr.write('\n');
+      }
+      resolve(answer);
+      rl.close();
+    });
+
+    muted = hidden;
+  });
+}
+
+/**
+ * Read one line from stdin
+ */
+export function prompt(question: string): Promise<string> {
+  return ask(question, false);
+}
+
+/**
+ * Read one line from stdin without echoing it (passphrases)
+ */
+export function promptSecret(question: string): Promise<string> {
+  return ask(question, true);
+}
+
+/**
+ * Whether stdin is an interactive terminal
+ */
+export function canPrompt(): boolean {
+  return Boolean(process.stdin.isTTY);
+}
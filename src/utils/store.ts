@@ -0,0 +1,206 @@
+/**
+ * Local data store
+ *
+ * Persists synced WHOOP records as one JSON file per data type under the
+ * token directory, so data commands can be answered with --offline.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from 'node:fs';
+import { join } from 'node:path';
+import { getTokenDir } from '../auth/tokens.js';
+import { WhoopError, ExitCode } from './errors.js';
+import type {
+  DataType,
+  WhoopProfile,
+  WhoopBody,
+  WhoopSleep,
+  WhoopRecovery,
+  WhoopWorkout,
+  WhoopCycle,
+} from '../types/whoop.js';
+
+const STORE_VERSION = 1;
+
+export interface StoreRecordMap {
+  profile: WhoopProfile;
+  body: WhoopBody;
+  sleep: WhoopSleep;
+  recovery: WhoopRecovery;
+  workout: WhoopWorkout;
+  cycle: WhoopCycle;
+}
+
+export interface StoreFile<K extends DataType> {
+  version: number;
+  synced_at: string;
+  records: StoreRecordMap[K][];
+}
+
+export interface MergeResult<K extends DataType> {
+  records: StoreRecordMap[K][];
+  added: number;
+  updated: number;
+}
+
+/**
+ * Get the store directory under a profile directory (default: the active profile's)
+ */
+export function getStoreDir(dataDir: string = getTokenDir()): string {
+  return join(dataDir, 'store');
+}
+
+function getStoreFile(dir: string, type: DataType): string {
+  return join(dir, `${type}.json`);
+}
+
+/**
+ * Load the stored records for a data type (null if never synced)
+ */
+export function readStore<K extends DataType>(
+  type: K,
+  dir: string = getStoreDir()
+): StoreFile<K> | null {
+  const file = getStoreFile(dir, type);
+  if (!existsSync(file)) {
+    return null;
+  }
+
+  try {
+    const store = JSON.parse(readFileSync(file, 'utf-8')) as StoreFile<K>;
+    return store.version === STORE_VERSION ? store : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace the stored records for a data type
+ */
+export function writeStore<K extends DataType>(
+  type: K,
+  records: StoreRecordMap[K][],
+  syncedAt: string,
+  dir: string = getStoreDir()
+): void {
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+
+  const store: StoreFile<K> = { version: STORE_VERSION, synced_at: syncedAt, records };
+
+  // Write then rename, so a crash or a parallel read never sees a partial file
+  const file = getStoreFile(dir, type);
+  const tempFile = `${file}.${process.pid}.tmp`;
+  writeFileSync(tempFile, JSON.stringify(store), { mode: 0o600 });
+  renameSync(tempFile, file);
+}
+
+/**
+ * Get the unique key of a record (recoveries are keyed by cycle)
+ */
+export function getRecordKey<K extends DataType>(type: K, record: StoreRecordMap[K]): string {
+  switch (type) {
+    case 'profile':
+    case 'body':
+      return type;
+    case 'recovery':
+      return String((record as WhoopRecovery).cycle_id);
+    default:
+      return String((record as WhoopSleep | WhoopWorkout | WhoopCycle).id);
+  }
+}
+
+/**
+ * Get the timestamp a record is attributed to.
+ * Recoveries have no start time, so they use created_at.
+ */
+export function getRecordTime<K extends DataType>(
+  type: K,
+  record: StoreRecordMap[K]
+): string | undefined {
+  switch (type) {
+    case 'profile':
+    case 'body':
+      return undefined;
+    case 'recovery':
+      return (record as WhoopRecovery).created_at;
+    default:
+      return (record as WhoopSleep | WhoopWorkout | WhoopCycle).start;
+  }
+}
+
+function getUpdatedAt(record: object): string {
+  return (record as { updated_at?: string }).updated_at ?? '';
+}
+
+/**
+ * Merge fetched records into stored ones.
+ * Records are replaced only when their updated_at is newer (e.g. re-scored).
+ * The result is sorted newest first, matching API order.
+ */
+export function mergeRecords<K extends DataType>(
+  type: K,
+  existing: StoreRecordMap[K][],
+  incoming: StoreRecordMap[K][]
+): MergeResult<K> {
+  const byKey = new Map(existing.map((record) => [getRecordKey(type, record), record]));
+  let added = 0;
+  let updated = 0;
+
+  for (const record of incoming) {
+    const key = getRecordKey(type, record);
+    const current = byKey.get(key);
+
+    if (!current) {
+      added++;
+      byKey.set(key, record);
+    } else if (type === 'profile' || type === 'body') {
+      byKey.set(key, record);
+    } else if (getUpdatedAt(record) > getUpdatedAt(current)) {
+      updated++;
+      byKey.set(key, record);
+    }
+  }
+
+  const records = [...byKey.values()].sort((a, b) =>
+    (getRecordTime(type, b) ?? '').localeCompare(getRecordTime(type, a) ?? '')
+  );
+
+  return { records, added, updated };
+}
+
+/**
+ * Get stored records, optionally limited to a start/end window
+ */
+export function queryStore<K extends DataType>(
+  type: K,
+  range?: { start: string; end: string },
+  dir: string = getStoreDir()
+): StoreRecordMap[K][] {
+  const store = readStore(type, dir);
+
+  if (!store) {
+    throw new WhoopError(
+      `No synced ${type} data. Run: whoop sync`,
+      ExitCode.NOT_FOUND,
+      undefined,
+      'run: whoop sync'
+    );
+  }
+
+  if (!range) {
+    return store.records;
+  }
+
+  const start = new Date(range.start).getTime();
+  const end = new Date(range.end).getTime();
+
+  return store.records.filter((record) => {
+    const time = getRecordTime(type, record);
+    if (!time) {
+      return true;
+    }
+    const ms = new Date(time).getTime();
+    return ms >= start && ms < end;
+  });
+}
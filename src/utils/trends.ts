@@ -0,0 +1,286 @@
+/**
+ * Longitudinal trends
+ *
+ * Builds daily series for key metrics and compares each day against
+ * rolling baselines (mean and standard deviation over the preceding
+ * 7/30/90 days), expressed as z-scores.
+ */
+
+import { addDays, getRecordDay } from './date.js';
+import type { CombinedOutput } from '../types/whoop.js';
+
+export type TrendMetric =
+  | 'hrv'
+  | 'rhr'
+  | 'recovery'
+  | 'sleep_performance'
+  | 'respiratory_rate'
+  | 'skin_temp'
+  | 'strain';
+
+export const TREND_METRICS: Record<TrendMetric, { label: string; unit: string }> = {
+  hrv: { label: 'HRV', unit: 'ms' },
+  rhr: { label: 'RHR', unit: 'bpm' },
+  recovery: { label: 'Recovery', unit: '%' },
+  sleep_performance: { label: 'Sleep', unit: '%' },
+  respiratory_rate: { label: 'Resp rate', unit: 'rpm' },
+  skin_temp: { label: 'Skin temp', unit: '°C' },
+  strain: { label: 'Strain', unit: '' },
+};
+
+export const DEFAULT_WINDOWS = [7, 30, 90];
+
+// |z| at or above this is flagged
+const DEFAULT_FLAG_THRESHOLD = 1.5;
+
+export interface DailyValue {
+  date: string;
+  value: number;
+}
+
+export type DailySeries = Record<TrendMetric, DailyValue[]>;
+
+export interface BaselineStats {
+  window: number;
+  mean: number | null;
+  sd: number | null;
+  n: number;
+  z: number | null;
+}
+
+export interface RollingPoint extends DailyValue {
+  mean: number | null;
+  sd: number | null;
+  z: number | null;
+}
+
+export interface MetricTrend {
+  metric: TrendMetric;
+  label: string;
+  unit: string;
+  current: DailyValue | null;
+  baselines: BaselineStats[];
+  flag: string | null;
+}
+
+export interface TrendReport {
+  as_of: string;
+  windows: number[];
+  metrics: MetricTrend[];
+  flags: string[];
+}
+
+const round = (value: number, places = 2): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Add a value to a series, keeping the latest value for each day
+ */
+function setDay(series: DailyValue[], date: string, value: number | undefined): void {
+  if (value === undefined || Number.isNaN(value)) {
+    return;
+  }
+
+  const existing = series.find((point) => point.date === date);
+  if (existing) {
+    existing.value = value;
+  } else {
+    series.push({ date, value });
+  }
+}
+
+/**
+ * Build one value per WHOOP day for each metric.
+ *
+ * Recoveries are attributed to the day they were created, sleeps to the
+ * day they ended (the morning they feed into) and cycles to the day they start,
+ * each in the record's own time zone where it has one.
+ * Naps and unscored records are skipped.
+ */
+export function buildDailySeries(data: CombinedOutput): DailySeries {
+  const series: DailySeries = {
+    hrv: [],
+    rhr: [],
+    recovery: [],
+    sleep_performance: [],
+    respiratory_rate: [],
+    skin_temp: [],
+    strain: [],
+  };
+
+  // API order is newest first; walk oldest first so later records win
+  for (const recovery of [...(data.recovery ?? [])].reverse()) {
+    if (!recovery.score) continue;
+    const date = getRecordDay(recovery.created_at);
+    setDay(series.hrv, date, recovery.score.hrv_rmssd_milli);
+    setDay(series.rhr, date, recovery.score.resting_heart_rate);
+    setDay(series.recovery, date, recovery.score.recovery_score);
+    setDay(series.skin_temp, date, recovery.score.skin_temp_celsius);
+  }
+
+  for (const sleep of [...(data.sleep ?? [])].reverse()) {
+    if (sleep.nap || !sleep.score) continue;
+    const date = getRecordDay(sleep.end, sleep.timezone_offset);
+    setDay(series.sleep_performance, date, sleep.score.sleep_performance_percentage);
+    setDay(series.respiratory_rate, date, sleep.score.respiratory_rate);
+  }
+
+  for (const cycle of [...(data.cycle ?? [])].reverse()) {
+    if (!cycle.score) continue;
+    setDay(series.strain, getRecordDay(cycle.start, cycle.timezone_offset), cycle.score.strain);
+  }
+
+  for (const points of Object.values(series)) {
+    points.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  return series;
+}
+
+/**
+ * Mean and sample standard deviation
+ */
+export function calculateStats(values: number[]): { mean: number | null; sd: number | null } {
+  if (values.length === 0) {
+    return { mean: null, sd: null };
+  }
+
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+
+  if (values.length < 2) {
+    return { mean, sd: null };
+  }
+
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return { mean, sd: Math.sqrt(variance) };
+}
+
+/**
+ * Standard score of a value against a baseline (null without spread)
+ */
+export function zScore(value: number, mean: number | null, sd: number | null): number | null {
+  if (mean === null || sd === null || sd === 0) {
+    return null;
+  }
+  return (value - mean) / sd;
+}
+
+/**
+ * Baseline over the `window` days before `date` (the day itself is excluded)
+ */
+export function calculateBaseline(
+  series: DailyValue[],
+  date: string,
+  window: number,
+  value?: number
+): BaselineStats {
+  const from = addDays(date, -window);
+  const values = series.filter((p) => p.date >= from && p.date < date).map((p) => p.value);
+  const { mean, sd } = calculateStats(values);
+  const z = value !== undefined ? zScore(value, mean, sd) : null;
+
+  return {
+    window,
+    mean: mean !== null ? round(mean) : null,
+    sd: sd !== null ? round(sd) : null,
+    n: values.length,
+    z: z !== null ? round(z) : null,
+  };
+}
+
+/**
+ * Rolling baseline for every day in a series
+ */
+export function rollingStats(series: DailyValue[], window: number): RollingPoint[] {
+  return series.map((point) => {
+    const { mean, sd, z } = calculateBaseline(series, point.date, window, point.value);
+    return { ...point, mean, sd, z };
+  });
+}
+
+/**
+ * Format a z-score flag, e.g. "HRV −1.8σ"
+ */
+export function formatFlag(label: string, z: number): string {
+  const sign = z < 0 ? '−' : '+';
+  return `${label} ${sign}${Math.abs(z).toFixed(1)}σ`;
+}
+
+/**
+ * Compare each metric's value on `asOf` (default: latest day with data)
+ * against its rolling baselines. Flags use the middle window (30 days by default).
+ */
+export function calculateTrends(
+  data: CombinedOutput,
+  options: { asOf?: string; windows?: number[]; flagThreshold?: number } = {}
+): TrendReport {
+  const windows = options.windows ?? DEFAULT_WINDOWS;
+  const threshold = options.flagThreshold ?? DEFAULT_FLAG_THRESHOLD;
+  const flagWindow = windows[Math.floor(windows.length / 2)];
+  const series = buildDailySeries(data);
+  const asOf = options.asOf ?? data.date;
+
+  const metrics = (Object.keys(TREND_METRICS) as TrendMetric[]).map((metric): MetricTrend => {
+    const { label, unit } = TREND_METRICS[metric];
+    const points = series[metric].filter((p) => p.date <= asOf);
+    const current = points[points.length - 1] ?? null;
+
+    const baselines = windows.map((window) =>
+      current
+        ? calculateBaseline(points, current.date, window, current.value)
+        : { window, mean: null, sd: null, n: 0, z: null }
+    );
+
+    const flagged = baselines.find((b) => b.window === flagWindow);
+    const flag =
+      flagged?.z !== null && flagged?.z !== undefined && Math.abs(flagged.z) >= threshold
+        ? formatFlag(label, flagged.z)
+        : null;
+
+    return { metric, label, unit, current, baselines, flag };
+  });
+
+  return {
+    as_of: asOf,
+    windows,
+    metrics,
+    flags: metrics.map((m) => m.flag).filter((flag): flag is string => flag !== null),
+  };
+}
+
+/**
+ * Format a trend report for pretty output
+ */
+export function formatTrends(report: TrendReport): string {
+  const lines: string[] = [];
+
+  lines.push(`📈 Trends as of ${report.as_of}`);
+  lines.push('━'.repeat(40));
+
+  for (const metric of report.metrics) {
+    if (!metric.current) {
+      lines.push(`${metric.label}: No data`);
+      continue;
+    }
+
+    const value = `${round(metric.current.value, 1)}${metric.unit}`;
+    const baselines = metric.baselines
+      .filter((b) => b.mean !== null)
+      .map((b) => {
+        const z = b.z !== null ? ` (${b.z >= 0 ? '+' : '−'}${Math.abs(b.z).toFixed(1)}σ)` : '';
+        return `${b.window}d ${round(b.mean ?? 0, 1)}${z}`;
+      })
+      .join(' | ');
+
+    lines.push(`${metric.label}: ${value}${baselines ? `  ${baselines}` : ''}`);
+  }
+
+  if (report.flags.length > 0) {
+    lines.push('');
+    lines.push(`⚠️  ${report.flags.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
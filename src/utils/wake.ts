@@ -6,16 +6,23 @@
  *
  * The algorithm adapts to individual sleep patterns rather than
  * using fixed thresholds.
+ *
+ * End times are local minutes since midnight, averaged with circular
+ * statistics so that wakes either side of midnight (e.g. 23:50 and 00:10)
+ * count as 20 minutes apart rather than 23 hours.
  */
 
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'node:fs';
 import { join } from 'node:path';
-import { homedir } from 'node:os';
+import { getProfileDir } from '../auth/profiles.js';
+import { getRecordDay, getRecordMinutes, getTimeZoneOffset } from './date.js';
+import { WhoopError, ExitCode } from './errors.js';
+import type { DateWindow } from '../types/whoop.js';
 
-const CONFIG_DIR = join(homedir(), '.whoop-cli');
-const HISTORY_FILE = join(CONFIG_DIR, 'sleep-history.json');
+const HISTORY_FILE_NAME = 'sleep-history.json';
 const HISTORY_DAYS = 14; // Keep 2 weeks of history
-const ROLLING_WINDOW = 7; // Use 7 days for rolling stats
+export const ROLLING_WINDOW = 7; // Use 7 days for rolling stats
+const MINUTES_PER_DAY = 1440;
 
 // WHOOP API sleep data structure
 interface WhoopSleepScore {
@@ -30,21 +37,37 @@ interface WhoopSleepScore {
 interface WhoopSleepData {
   start?: string;
   end?: string;
+  timezone_offset?: string;
+  nap?: boolean;
   score?: WhoopSleepScore;
 }
 
 export interface SleepRecord {
   date: string;
-  endUtcHour: number;
+  /** Local time the sleep ended, in minutes since midnight in its own time zone */
+  endMinutes: number;
   durationHours: number;
   cycles: number;
   performance: number;
   efficiency: number;
 }
 
+/**
+ * History records saved before end times were kept in minutes
+ */
+interface LegacySleepRecord extends Omit<SleepRecord, 'endMinutes'> {
+  endUtcHour: number;
+  /** Hour the sleep ended in its own time zone (absent in the oldest history) */
+  endLocalHour?: number;
+}
+
 export interface RollingStats {
-  avgEndHour: number;
-  minEndHour: number;
+  /** Circular mean of the end times (local minutes since midnight) */
+  avgEndMinutes: number;
+  /** Earliest end time, measured from the circular mean */
+  earliestEndMinutes: number;
+  /** Circular standard deviation of the end times in minutes (null without history) */
+  endSpreadMinutes: number | null;
   avgDuration: number;
   minDuration: number;
   avgCycles: number;
@@ -61,97 +84,361 @@ export interface WakeCheckResult {
   confidence: 'high' | 'medium' | 'low';
   sleep: {
     endTime: string;
-    endHourUtc: number;
+    /** Local end time as HH:MM */
+    endLocalTime: string;
+    endMinutes: number;
     durationHours: number;
     cycles: number;
     performance: number;
   };
   thresholds: {
-    endHourMin: number;
+    /** Earliest local end time that counts, in minutes since midnight */
+    endMinutesMin: number;
     durationMin: number;
     cyclesMin: number;
     performanceMin: number;
   };
   checks: {
-    name: string;
+    name: WakeCheckName;
     passed: boolean;
     points: number;
+    value: number;
+    threshold: number;
     detail: string;
   }[];
   stats: RollingStats;
+  /** Model parameters the decision was made with */
+  model: WakeModel;
+}
+
+// ============================================================================
+// Model
+// ============================================================================
+
+export const WAKE_CHECKS = [
+  'end_hour_minimum',
+  'end_hour_typical',
+  'duration',
+  'cycles',
+  'performance',
+] as const;
+
+export type WakeCheckName = (typeof WAKE_CHECKS)[number];
+
+/** Checks whose value and threshold are local times in minutes since midnight */
+const CLOCK_CHECKS: readonly WakeCheckName[] = ['end_hour_minimum', 'end_hour_typical'];
+
+export interface WakeModel {
+  /** Points each passed check adds to the score */
+  weights: Record<WakeCheckName, number>;
+  /** Score at which the user counts as awake */
+  cutoff: number;
+  /** How thresholds are derived from the rolling stats */
+  thresholds: {
+    /** Minutes before the earliest recent wake that still count */
+    endMarginMinutes: number;
+    /** Fraction of the average duration */
+    durationRatio: number;
+    /** Cycles below the recent minimum that still count */
+    cyclesMargin: number;
+    /** Cycles needed regardless of history */
+    cyclesFloor: number;
+    /** Fraction of the average performance */
+    performanceRatio: number;
+  };
+  /** Stats used until there is history (end times in local minutes since midnight) */
+  defaults: Omit<RollingStats, 'endSpreadMinutes' | 'sampleSize'>;
+}
+
+export const DEFAULT_WAKE_MODEL: WakeModel = {
+  weights: { end_hour_minimum: 3, end_hour_typical: 2, duration: 2, cycles: 2, performance: 1 },
+  cutoff: 6,
+  thresholds: {
+    endMarginMinutes: 120,
+    durationRatio: 0.7,
+    cyclesMargin: 1,
+    cyclesFloor: 2,
+    performanceRatio: 0.75,
+  },
+  defaults: {
+    avgEndMinutes: 360,
+    earliestEndMinutes: 300,
+    avgDuration: 7,
+    minDuration: 5,
+    avgCycles: 4,
+    minCycles: 3,
+    avgPerformance: 80,
+    minPerformance: 70,
+  },
+};
+
+/** Names accepted in the thresholds and defaults settings */
+export const WAKE_THRESHOLD_PARAMS = Object.keys(
+  DEFAULT_WAKE_MODEL.thresholds
+) as (keyof WakeModel['thresholds'])[];
+export const WAKE_DEFAULT_PARAMS = Object.keys(
+  DEFAULT_WAKE_MODEL.defaults
+) as (keyof WakeModel['defaults'])[];
+
+/**
+ * Model overrides as stored in settings: comma-separated `name=value` lists,
+ * e.g. `duration=3,performance=0` for the weights
+ */
+export interface WakeModelSettings {
+  weights?: string;
+  cutoff?: string;
+  thresholds?: string;
+  defaults?: string;
+}
+
+export interface WakeCheckExplanation {
+  name: WakeCheckName;
+  passed: boolean;
+  weight: number;
+  value: number;
+  threshold: number;
+  /** Score if only this check had gone the other way */
+  scoreIfFlipped: number;
+  /** Whether that alone would flip the decision */
+  flips: boolean;
+  /** What the value would need to be for the check to go the other way */
+  needed: string;
+}
+
+export interface WakeExplanation {
+  decision: 'awake' | 'not_awake';
+  score: number;
+  cutoff: number;
+  checks: WakeCheckExplanation[];
+  summary: string;
+}
+
+/**
+ * Highest score a model can award
+ */
+export function getMaxScore(model: WakeModel): number {
+  return WAKE_CHECKS.reduce((total, name) => total + model.weights[name], 0);
 }
 
 /**
- * Load sleep history from disk
+ * Parse a `name=value,...` list of numbers, allowing only the given names
+ */
+export function parseWakeParams<K extends string>(
+  value: string,
+  names: readonly K[]
+): Partial<Record<K, number>> {
+  const params: Partial<Record<K, number>> = {};
+
+  for (const pair of value.split(',')) {
+    const [name = '', raw = ''] = pair.split('=').map((part) => part.trim());
+
+    if (!names.includes(name as K)) {
+      throw new WhoopError(
+        `Unknown wake parameter: ${name || pair}. Use name=value with one of: ${names.join(', ')}`,
+        ExitCode.INVALID_INPUT
+      );
+    }
+
+    const number = Number(raw);
+    if (raw === '' || !Number.isFinite(number) || number < 0) {
+      throw new WhoopError(
+        `Invalid value for wake parameter ${name}: must be a non-negative number`,
+        ExitCode.INVALID_INPUT
+      );
+    }
+
+    params[name as K] = number;
+  }
+
+  return params;
+}
+
+/**
+ * Build the wake model from settings, starting from the defaults
+ */
+export function buildWakeModel(settings: WakeModelSettings = {}): WakeModel {
+  const { weights, thresholds, defaults } = DEFAULT_WAKE_MODEL;
+
+  const model: WakeModel = {
+    weights: {
+      ...weights,
+      ...(settings.weights && parseWakeParams(settings.weights, WAKE_CHECKS)),
+    },
+    cutoff: settings.cutoff !== undefined ? Number(settings.cutoff) : DEFAULT_WAKE_MODEL.cutoff,
+    thresholds: {
+      ...thresholds,
+      ...(settings.thresholds && parseWakeParams(settings.thresholds, WAKE_THRESHOLD_PARAMS)),
+    },
+    defaults: {
+      ...defaults,
+      ...(settings.defaults && parseWakeParams(settings.defaults, WAKE_DEFAULT_PARAMS)),
+    },
+  };
+
+  const maxScore = getMaxScore(model);
+  if (!Number.isFinite(model.cutoff) || model.cutoff <= 0 || model.cutoff > maxScore) {
+    throw new WhoopError(
+      `Invalid wake cutoff: ${model.cutoff}. Use a number above 0 and at most the maximum score (${maxScore})`,
+      ExitCode.INVALID_INPUT
+    );
+  }
+
+  return model;
+}
+
+/**
+ * Get the active profile's sleep history file
+ */
+function getHistoryFile(): string {
+  return join(getProfileDir(), HISTORY_FILE_NAME);
+}
+
+/**
+ * Load sleep history from disk, rewriting records saved with hour-only end times
  */
 export function loadHistory(): SleepRecord[] {
-  if (!existsSync(HISTORY_FILE)) {
+  const file = getHistoryFile();
+  if (!existsSync(file)) {
     return [];
   }
+
+  let records: (SleepRecord | LegacySleepRecord)[];
   try {
-    const data = readFileSync(HISTORY_FILE, 'utf-8');
-    return JSON.parse(data) as SleepRecord[];
+    const data = readFileSync(file, 'utf-8');
+    records = JSON.parse(data) as (SleepRecord | LegacySleepRecord)[];
   } catch {
     return [];
   }
+
+  const history = records.map(migrateRecord);
+  if (records.some(isLegacyRecord)) {
+    saveHistory(history);
+  }
+  return history;
+}
+
+function isLegacyRecord(record: SleepRecord | LegacySleepRecord): record is LegacySleepRecord {
+  return !('endMinutes' in record);
+}
+
+/**
+ * Convert a record saved before end times were kept in minutes. The oldest
+ * records only have the UTC hour, converted using the configured time zone.
+ */
+function migrateRecord(record: SleepRecord | LegacySleepRecord): SleepRecord {
+  if (!isLegacyRecord(record)) {
+    return record;
+  }
+
+  const { endUtcHour, endLocalHour, ...rest } = record;
+  if (endLocalHour !== undefined) {
+    return { ...rest, endMinutes: endLocalHour * 60 };
+  }
+
+  const offsetMinutes = getTimeZoneOffset(new Date(`${record.date}T12:00:00Z`));
+  return { ...rest, endMinutes: wrapMinutes(endUtcHour * 60 + offsetMinutes) };
 }
 
 /**
  * Save sleep history to disk
  */
 export function saveHistory(history: SleepRecord[]): void {
-  if (!existsSync(CONFIG_DIR)) {
-    mkdirSync(CONFIG_DIR, { recursive: true });
+  const dir = getProfileDir();
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
   }
   // Keep only last HISTORY_DAYS
   const trimmed = history.slice(-HISTORY_DAYS);
-  writeFileSync(HISTORY_FILE, JSON.stringify(trimmed, null, 2));
+  writeFileSync(getHistoryFile(), JSON.stringify(trimmed, null, 2));
 }
 
 /**
  * Add a sleep record to history (dedupes by date)
  */
 export function addToHistory(record: SleepRecord): void {
-  const history = loadHistory();
-  const existing = history.findIndex((h) => h.date === record.date);
-  if (existing >= 0) {
-    history[existing] = record; // Update existing
-  } else {
-    history.push(record);
-  }
-  // Sort by date
-  history.sort((a, b) => a.date.localeCompare(b.date));
-  saveHistory(history);
+  saveHistory(mergeHistory(loadHistory(), record));
+}
+
+/**
+ * Add a sleep record to a history in memory (dedupes by date, sorted by date)
+ */
+export function mergeHistory(history: SleepRecord[], record: SleepRecord): SleepRecord[] {
+  const merged = history.filter((h) => h.date !== record.date);
+  merged.push(record);
+  return merged.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// ============================================================================
+// Times of day
+// ============================================================================
+
+/**
+ * Wrap minutes onto the clock, from 0 up to (not including) 1440
+ */
+function wrapMinutes(minutes: number): number {
+  return ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+/**
+ * Signed minutes from one time of day to another the short way round the
+ * clock, e.g. +20 from 23:50 (1430) to 00:10 (10). Between -720 and 720.
+ */
+export function minutesBetween(from: number, to: number): number {
+  return wrapMinutes(to - from + MINUTES_PER_DAY / 2) - MINUTES_PER_DAY / 2;
 }
 
 /**
- * Calculate rolling statistics from history
+ * Circular mean and standard deviation of times of day in minutes
  */
-export function calculateRollingStats(history: SleepRecord[]): RollingStats {
+export function circularStats(minutes: number[]): { mean: number; spread: number } {
+  const angles = minutes.map((m) => (m / MINUTES_PER_DAY) * 2 * Math.PI);
+  const cos = angles.reduce((total, angle) => total + Math.cos(angle), 0) / angles.length;
+  const sin = angles.reduce((total, angle) => total + Math.sin(angle), 0) / angles.length;
+  // Mean resultant length: 1 when all times are equal, near 0 when spread round the clock
+  const length = Math.min(Math.hypot(cos, sin), 1);
+
+  return {
+    mean: wrapMinutes((Math.atan2(sin, cos) / (2 * Math.PI)) * MINUTES_PER_DAY),
+    spread:
+      (Math.sqrt(-2 * Math.log(Math.max(length, Number.EPSILON))) / (2 * Math.PI)) *
+      MINUTES_PER_DAY,
+  };
+}
+
+/**
+ * Format minutes since midnight as HH:MM
+ */
+export function formatMinutes(minutes: number): string {
+  const rounded = wrapMinutes(Math.round(minutes));
+  const hours = String(Math.floor(rounded / 60)).padStart(2, '0');
+  return `${hours}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Calculate rolling statistics from history (end times are local)
+ */
+export function calculateRollingStats(
+  history: SleepRecord[],
+  defaults: WakeModel['defaults'] = DEFAULT_WAKE_MODEL.defaults
+): RollingStats {
   const recent = history.slice(-ROLLING_WINDOW);
 
   if (recent.length === 0) {
-    // Default stats for new users
-    return {
-      avgEndHour: 14, // 6 AM PT
-      minEndHour: 13, // 5 AM PT
-      avgDuration: 7,
-      minDuration: 5,
-      avgCycles: 4,
-      minCycles: 3,
-      avgPerformance: 80,
-      minPerformance: 70,
-      sampleSize: 0,
-    };
+    return { ...defaults, endSpreadMinutes: null, sampleSize: 0 };
   }
 
   const sum = (arr: number[]) => arr.reduce((a, b) => a + b, 0);
   const avg = (arr: number[]) => sum(arr) / arr.length;
   const min = (arr: number[]) => Math.min(...arr);
 
+  const ends = recent.map((r) => r.endMinutes);
+  const { mean, spread } = circularStats(ends);
+  const earliest = min(ends.map((end) => minutesBetween(mean, end)));
+
   return {
-    avgEndHour: Math.round(avg(recent.map((r) => r.endUtcHour)) * 10) / 10,
-    minEndHour: min(recent.map((r) => r.endUtcHour)),
+    avgEndMinutes: wrapMinutes(Math.round(mean)),
+    earliestEndMinutes: wrapMinutes(Math.round(mean + earliest)),
+    endSpreadMinutes: Math.round(spread),
     avgDuration: Math.round(avg(recent.map((r) => r.durationHours)) * 10) / 10,
     minDuration: Math.round(min(recent.map((r) => r.durationHours)) * 10) / 10,
     avgCycles: Math.round(avg(recent.map((r) => r.cycles)) * 10) / 10,
@@ -170,13 +457,12 @@ export function parseSleepRecord(sleep: WhoopSleepData): SleepRecord | null {
     return null;
   }
 
-  const endTime = new Date(sleep.end);
   const stages = sleep.score.stage_summary;
-  const startDate = sleep.start.split('T')[0] ?? '';
 
   return {
-    date: startDate,
-    endUtcHour: endTime.getUTCHours(),
+    // The WHOOP day the sleep started in, i.e. the night it belongs to
+    date: getRecordDay(sleep.start, sleep.timezone_offset),
+    endMinutes: getRecordMinutes(sleep.end, sleep.timezone_offset),
     durationHours: (stages?.total_in_bed_time_milli ?? 0) / 3600000,
     cycles: stages?.sleep_cycle_count ?? 0,
     performance: sleep.score.sleep_performance_percentage ?? 0,
@@ -185,127 +471,138 @@ export function parseSleepRecord(sleep: WhoopSleepData): SleepRecord | null {
 }
 
 /**
- * Main wake detection algorithm
+ * Main wake detection algorithm. A sleep that looks like a real wake is
+ * added to the history.
  */
-export function checkWake(currentSleep: WhoopSleepData, history?: SleepRecord[]): WakeCheckResult {
+export function checkWake(
+  currentSleep: WhoopSleepData,
+  history?: SleepRecord[],
+  model: WakeModel = DEFAULT_WAKE_MODEL
+): WakeCheckResult {
+  const result = evaluateWake(currentSleep, history ?? loadHistory(), model);
   const sleepRecord = parseSleepRecord(currentSleep);
 
-  if (!sleepRecord) {
-    throw new Error('Invalid sleep data');
+  if (result.isAwake && sleepRecord) {
+    addToHistory(sleepRecord);
   }
 
-  // Load history if not provided
-  const sleepHistory = history ?? loadHistory();
+  return result;
+}
+
+/**
+ * Score a sleep against a history, without saving anything
+ */
+export function evaluateWake(
+  currentSleep: WhoopSleepData,
+  history: SleepRecord[],
+  model: WakeModel = DEFAULT_WAKE_MODEL
+): WakeCheckResult {
+  const sleepRecord = parseSleepRecord(currentSleep);
+
+  if (!sleepRecord) {
+    throw new WhoopError(
+      'Invalid sleep data: a scored sleep needs start, end and score',
+      ExitCode.SCHEMA_ERROR
+    );
+  }
 
   // Calculate rolling stats (excluding today)
-  const historyWithoutToday = sleepHistory.filter((h) => h.date !== sleepRecord.date);
-  const stats = calculateRollingStats(historyWithoutToday);
+  const historyWithoutToday = history.filter((h) => h.date !== sleepRecord.date);
+  const stats = calculateRollingStats(historyWithoutToday, model.defaults);
 
   // Calculate adaptive thresholds
+  const { endMarginMinutes, durationRatio, cyclesMargin, cyclesFloor, performanceRatio } =
+    model.thresholds;
   const thresholds = {
-    endHourMin: stats.minEndHour - 2, // 2 hours before typical minimum
-    durationMin: Math.round(stats.avgDuration * 0.7 * 10) / 10, // 70% of average
-    cyclesMin: Math.max(stats.minCycles - 1, 2), // min - 1, but at least 2
-    performanceMin: Math.round(stats.avgPerformance * 0.75), // 75% of average
+    endMinutesMin: wrapMinutes(stats.earliestEndMinutes - endMarginMinutes),
+    durationMin: Math.round(stats.avgDuration * durationRatio * 10) / 10,
+    cyclesMin: Math.max(stats.minCycles - cyclesMargin, cyclesFloor),
+    performanceMin: Math.round(stats.avgPerformance * performanceRatio),
   };
 
-  // Run checks
-  const checks: WakeCheckResult['checks'] = [];
-  let score = 0;
-
-  // Check 1: End hour (most important - 5 points)
-  const endHourOk = sleepRecord.endUtcHour >= thresholds.endHourMin;
-  const endHourGood = sleepRecord.endUtcHour >= stats.minEndHour;
-  if (endHourOk) {
-    score += 3;
-    checks.push({
+  const endMinutes = Math.round(sleepRecord.endMinutes * 10) / 10;
+  const durationPercent = Math.round(durationRatio * 100);
+  const performancePercent = Math.round(performanceRatio * 100);
+
+  // Each check awards its weight when the value reaches the threshold
+  const candidates: {
+    name: WakeCheckName;
+    value: number;
+    threshold: number;
+    shown: string;
+    unit: string;
+    passedNote: string;
+    failedNote: string;
+  }[] = [
+    {
       name: 'end_hour_minimum',
-      passed: true,
-      points: 3,
-      detail: `${sleepRecord.endUtcHour} UTC >= ${thresholds.endHourMin} UTC (min - 2h)`,
-    });
-  } else {
-    checks.push({
-      name: 'end_hour_minimum',
-      passed: false,
-      points: 0,
-      detail: `${sleepRecord.endUtcHour} UTC < ${thresholds.endHourMin} UTC (too early)`,
-    });
-  }
-
-  if (endHourGood) {
-    score += 2;
-    checks.push({
-      name: 'end_hour_typical',
-      passed: true,
-      points: 2,
-      detail: `${sleepRecord.endUtcHour} UTC >= ${stats.minEndHour} UTC (typical min)`,
-    });
-  } else {
-    checks.push({
+      value: endMinutes,
+      threshold: thresholds.endMinutesMin,
+      shown: formatMinutes(endMinutes),
+      unit: ' local',
+      passedNote: `earliest - ${endMarginMinutes} min`,
+      failedNote: 'too early',
+    },
+    {
       name: 'end_hour_typical',
-      passed: false,
-      points: 0,
-      detail: `${sleepRecord.endUtcHour} UTC < ${stats.minEndHour} UTC (earlier than typical)`,
-    });
-  }
-
-  // Check 2: Duration (2 points)
-  const durationOk = sleepRecord.durationHours >= thresholds.durationMin;
-  if (durationOk) {
-    score += 2;
-    checks.push({
-      name: 'duration',
-      passed: true,
-      points: 2,
-      detail: `${sleepRecord.durationHours.toFixed(1)}h >= ${thresholds.durationMin}h (70% of avg)`,
-    });
-  } else {
-    checks.push({
+      value: endMinutes,
+      threshold: stats.earliestEndMinutes,
+      shown: formatMinutes(endMinutes),
+      unit: ' local',
+      passedNote: 'typical earliest',
+      failedNote: 'earlier than typical',
+    },
+    {
       name: 'duration',
-      passed: false,
-      points: 0,
-      detail: `${sleepRecord.durationHours.toFixed(1)}h < ${thresholds.durationMin}h (too short)`,
-    });
-  }
-
-  // Check 3: Cycles (2 points)
-  const cyclesOk = sleepRecord.cycles >= thresholds.cyclesMin;
-  if (cyclesOk) {
-    score += 2;
-    checks.push({
-      name: 'cycles',
-      passed: true,
-      points: 2,
-      detail: `${sleepRecord.cycles} cycles >= ${thresholds.cyclesMin} (min - 1)`,
-    });
-  } else {
-    checks.push({
+      value: sleepRecord.durationHours,
+      threshold: thresholds.durationMin,
+      shown: sleepRecord.durationHours.toFixed(1),
+      unit: 'h',
+      passedNote: `${durationPercent}% of avg`,
+      failedNote: 'too short',
+    },
+    {
       name: 'cycles',
-      passed: false,
-      points: 0,
-      detail: `${sleepRecord.cycles} cycles < ${thresholds.cyclesMin} (incomplete sleep)`,
-    });
-  }
-
-  // Check 4: Performance (1 point)
-  const perfOk = sleepRecord.performance >= thresholds.performanceMin;
-  if (perfOk) {
-    score += 1;
-    checks.push({
-      name: 'performance',
-      passed: true,
-      points: 1,
-      detail: `${sleepRecord.performance}% >= ${thresholds.performanceMin}% (75% of avg)`,
-    });
-  } else {
-    checks.push({
+      value: sleepRecord.cycles,
+      threshold: thresholds.cyclesMin,
+      shown: String(sleepRecord.cycles),
+      unit: ' cycles',
+      passedNote: `min - ${cyclesMargin}`,
+      failedNote: 'incomplete sleep',
+    },
+    {
       name: 'performance',
-      passed: false,
-      points: 0,
-      detail: `${sleepRecord.performance}% < ${thresholds.performanceMin}% (below typical)`,
-    });
-  }
+      value: sleepRecord.performance,
+      threshold: thresholds.performanceMin,
+      shown: String(sleepRecord.performance),
+      unit: '%',
+      passedNote: `${performancePercent}% of avg`,
+      failedNote: 'below typical',
+    },
+  ];
+
+  const checks: WakeCheckResult['checks'] = candidates.map((check) => {
+    const clock = CLOCK_CHECKS.includes(check.name);
+    // Times of day are compared as offsets from the typical end, so they wrap at midnight
+    const passed = clock
+      ? minutesBetween(stats.avgEndMinutes, check.value) >=
+        minutesBetween(stats.avgEndMinutes, check.threshold)
+      : check.value >= check.threshold;
+    const threshold = `${clock ? formatMinutes(check.threshold) : check.threshold}${check.unit}`;
+
+    return {
+      name: check.name,
+      passed,
+      points: passed ? model.weights[check.name] : 0,
+      value: check.value,
+      threshold: check.threshold,
+      detail: passed
+        ? `${check.shown}${check.unit} >= ${threshold} (${check.passedNote})`
+        : `${check.shown}${check.unit} < ${threshold} (${check.failedNote})`,
+    };
+  });
+
+  const score = checks.reduce((total, check) => total + check.points, 0);
 
   // Determine confidence based on history size
   let confidence: 'high' | 'medium' | 'low' = 'low';
@@ -315,21 +612,17 @@ export function checkWake(currentSleep: WhoopSleepData, history?: SleepRecord[])
     confidence = 'medium';
   }
 
-  const isAwake = score >= 6;
-
-  // Add to history if this looks like a real wake
-  if (isAwake) {
-    addToHistory(sleepRecord);
-  }
+  const isAwake = score >= model.cutoff;
 
   return {
     isAwake,
     score,
-    maxScore: 10,
+    maxScore: getMaxScore(model),
     confidence,
     sleep: {
       endTime: currentSleep.end ?? '',
-      endHourUtc: sleepRecord.endUtcHour,
+      endLocalTime: formatMinutes(endMinutes),
+      endMinutes,
       durationHours: Math.round(sleepRecord.durationHours * 10) / 10,
       cycles: sleepRecord.cycles,
       performance: sleepRecord.performance,
@@ -337,9 +630,242 @@ export function checkWake(currentSleep: WhoopSleepData, history?: SleepRecord[])
     thresholds,
     checks,
     stats,
+    model,
+  };
+}
+
+/**
+ * Work out, for each check, whether flipping it alone would flip the decision
+ * and what the sleep would have needed for that
+ */
+export function explainWake(result: WakeCheckResult): WakeExplanation {
+  const { cutoff } = result.model;
+
+  const checks = result.checks.map((check): WakeCheckExplanation => {
+    const weight = result.model.weights[check.name];
+    const scoreIfFlipped = check.passed ? result.score - weight : result.score + weight;
+    const flips = scoreIfFlipped >= cutoff !== result.isAwake;
+    let needed: string;
+
+    if (CLOCK_CHECKS.includes(check.name)) {
+      const gap = Math.round(minutesBetween(check.value, check.threshold));
+      const time = formatMinutes(check.threshold);
+      needed = check.passed ? `before ${time}` : `at or after ${time} (+${gap} min)`;
+    } else {
+      const gap = Math.round((check.threshold - check.value) * 10) / 10;
+      needed = check.passed ? `below ${check.threshold}` : `at least ${check.threshold} (+${gap})`;
+    }
+
+    return {
+      name: check.name,
+      passed: check.passed,
+      weight,
+      value: check.value,
+      threshold: check.threshold,
+      scoreIfFlipped,
+      flips,
+      needed,
+    };
+  });
+
+  const flipping = checks.filter((check) => check.flips).map((check) => check.name);
+  let summary: string;
+
+  if (flipping.length > 0) {
+    summary = `${result.isAwake ? 'Failing' : 'Passing'} any of ${flipping.join(', ')} would flip the decision`;
+  } else if (result.isAwake) {
+    summary = `No single check flips the decision (score ${result.score} is ${result.score - cutoff} above the cutoff)`;
+  } else {
+    summary = `No single check flips the decision (${cutoff - result.score} more points needed)`;
+  }
+
+  return {
+    decision: result.isAwake ? 'awake' : 'not_awake',
+    score: result.score,
+    cutoff,
+    checks,
+    summary,
+  };
+}
+
+// ============================================================================
+// Backtesting
+// ============================================================================
+
+/**
+ * How a replayed call compares with what happened: the last primary sleep of
+ * a WHOOP day is the real wake, earlier ones were mid-sleep wakes
+ */
+export type BacktestOutcome = 'true_awake' | 'false_awake' | 'missed_wake' | 'true_not_awake';
+
+export interface BacktestSleep {
+  date: string;
+  endTime: string;
+  /** Local end time as HH:MM */
+  endLocalTime: string;
+  score: number;
+  predictedAwake: boolean;
+  actualAwake: boolean;
+  outcome: BacktestOutcome;
+}
+
+export interface BacktestSummary {
+  sleeps: number;
+  wakes: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  /** Share of "awake" calls that were real wakes (null without any) */
+  precision: number | null;
+  /** Share of real wakes called "awake" (null without any) */
+  recall: number | null;
+  accuracy: number | null;
+}
+
+export interface BacktestReport {
+  from: string;
+  to: string;
+  model: WakeModel;
+  summary: BacktestSummary;
+  /** Mid-sleep wakes that were called "awake" */
+  falseAwake: BacktestSleep[];
+  daily: { date: string; sleeps: BacktestSleep[] }[];
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
+
+/**
+ * Replay sleeps in the order they ended through the wake algorithm, each seeing
+ * only the history the live command would have built by then, and score the
+ * calls for sleeps in the window. Sleeps before the window only build history.
+ */
+export function backtestWake(
+  sleeps: WhoopSleepData[],
+  window: DateWindow,
+  model: WakeModel = DEFAULT_WAKE_MODEL
+): BacktestReport {
+  const primary = sleeps
+    .filter((sleep) => !sleep.nap)
+    .flatMap((sleep) => {
+      const record = parseSleepRecord(sleep);
+      return record ? [{ sleep, record, end: Date.parse(sleep.end ?? '') }] : [];
+    })
+    .sort((a, b) => a.end - b.end);
+
+  // The last primary sleep to end on each WHOOP day
+  const finalEnd = new Map(primary.map(({ record, end }) => [record.date, end]));
+
+  let history: SleepRecord[] = [];
+  const replayed: BacktestSleep[] = [];
+
+  for (const { sleep, record, end } of primary) {
+    const result = evaluateWake(sleep, history, model);
+
+    if (result.isAwake) {
+      history = mergeHistory(history, record);
+    }
+
+    if (record.date < window.from || record.date > window.to) {
+      continue;
+    }
+
+    const actualAwake = finalEnd.get(record.date) === end;
+    const outcome: BacktestOutcome = result.isAwake
+      ? actualAwake
+        ? 'true_awake'
+        : 'false_awake'
+      : actualAwake
+        ? 'missed_wake'
+        : 'true_not_awake';
+
+    replayed.push({
+      date: record.date,
+      endTime: result.sleep.endTime,
+      endLocalTime: result.sleep.endLocalTime,
+      score: result.score,
+      predictedAwake: result.isAwake,
+      actualAwake,
+      outcome,
+    });
+  }
+
+  const count = (outcome: BacktestOutcome): number =>
+    replayed.filter((sleep) => sleep.outcome === outcome).length;
+  const tp = count('true_awake');
+  const fp = count('false_awake');
+  const fn = count('missed_wake');
+  const tn = count('true_not_awake');
+
+  const daily = new Map<string, BacktestSleep[]>();
+  for (const sleep of replayed) {
+    daily.set(sleep.date, [...(daily.get(sleep.date) ?? []), sleep]);
+  }
+
+  return {
+    from: window.from,
+    to: window.to,
+    model,
+    summary: {
+      sleeps: replayed.length,
+      wakes: tp + fn,
+      truePositives: tp,
+      falsePositives: fp,
+      falseNegatives: fn,
+      trueNegatives: tn,
+      precision: ratio(tp, tp + fp),
+      recall: ratio(tp, tp + fn),
+      accuracy: ratio(tp + tn, replayed.length),
+    },
+    falseAwake: replayed.filter((sleep) => sleep.outcome === 'false_awake'),
+    daily: [...daily].map(([date, daySleeps]) => ({ date, sleeps: daySleeps })),
   };
 }
 
+/**
+ * Format a backtest report for pretty output
+ */
+export function formatBacktest(report: BacktestReport): string {
+  const { summary } = report;
+  const percent = (value: number | null): string =>
+    value === null ? 'n/a' : `${Math.round(value * 100)}%`;
+
+  let output = `\nWake backtest ${report.from} to ${report.to} (cutoff ${report.model.cutoff}/${getMaxScore(report.model)})\n`;
+  output += `Sleeps: ${summary.sleeps} | Real wakes: ${summary.wakes}\n`;
+  output += `Precision: ${percent(summary.precision)} | Recall: ${percent(summary.recall)} | Accuracy: ${percent(summary.accuracy)}\n`;
+  output += `False "awake" calls: ${summary.falsePositives} | Missed wakes: ${summary.falseNegatives}\n\n`;
+
+  output += `Date        End    Score  Called      Actual\n`;
+  for (const { sleeps } of report.daily) {
+    for (const sleep of sleeps) {
+      const called = sleep.predictedAwake ? 'awake' : 'not awake';
+      const actual = sleep.actualAwake ? 'awake' : 'mid-sleep';
+      const mark = sleep.predictedAwake === sleep.actualAwake ? '' : '  ✗';
+      output += `${sleep.date}  ${sleep.endLocalTime}  ${String(sleep.score).padEnd(5)}  ${called.padEnd(10)}  ${actual}${mark}\n`;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Format a wake explanation for pretty output
+ */
+export function formatWakeExplanation(explanation: WakeExplanation): string {
+  let output = `What would flip the decision (score ${explanation.score}, cutoff ${explanation.cutoff}):\n`;
+
+  for (const check of explanation.checks) {
+    const change = check.passed ? 'fail' : 'pass';
+    const effect = check.flips ? 'flips the decision' : 'decision unchanged';
+    output += `  ${check.flips ? '→' : ' '} ${check.name}: would ${change} ${check.needed}; score ${check.scoreIfFlipped} (${effect})\n`;
+  }
+
+  output += `${explanation.summary}\n`;
+  return output;
+}
+
 /**
  * Format wake check result for pretty output
  */
@@ -348,17 +874,21 @@ export function formatWakeResult(result: WakeCheckResult): string {
   const confidence = `Confidence: ${result.confidence} (${result.stats.sampleSize} days of history)`;
 
   let output = `\n${status}\n`;
-  output += `Score: ${result.score}/${result.maxScore} (threshold: 6)\n`;
+  output += `Score: ${result.score}/${result.maxScore} (threshold: ${result.model.cutoff})\n`;
   output += `${confidence}\n\n`;
 
   output += `Current Sleep:\n`;
-  output += `  End time: ${result.sleep.endTime}\n`;
+  output += `  End time: ${result.sleep.endLocalTime} local (${result.sleep.endTime})\n`;
   output += `  Duration: ${result.sleep.durationHours}h\n`;
   output += `  Cycles: ${result.sleep.cycles}\n`;
   output += `  Performance: ${result.sleep.performance}%\n\n`;
 
+  const { stats } = result;
+  const spread = stats.endSpreadMinutes !== null ? `, spread ±${stats.endSpreadMinutes} min` : '';
+
   output += `Adaptive Thresholds (from your history):\n`;
-  output += `  End hour: >= ${result.thresholds.endHourMin} UTC\n`;
+  output += `  Typical end: ${formatMinutes(stats.avgEndMinutes)} local (earliest ${formatMinutes(stats.earliestEndMinutes)}${spread})\n`;
+  output += `  End time: >= ${formatMinutes(result.thresholds.endMinutesMin)} local\n`;
   output += `  Duration: >= ${result.thresholds.durationMin}h\n`;
   output += `  Cycles: >= ${result.thresholds.cyclesMin}\n`;
   output += `  Performance: >= ${result.thresholds.performanceMin}%\n\n`;
@@ -167,7 +167,7 @@ describe('Agent Workflows - Correct Patterns', () => {
       const result = agent.smartRun(`recovery --date ${validDate}`);
 
       // If auth fails, that's expected in test env - but date format was valid
-      if (result.exitCode === 1 && result.stderr.includes('Invalid date')) {
+      if (result.exitCode === 6 && result.stderr.includes('Invalid date')) {
         throw new Error('Date format should be valid');
       }
     });
@@ -218,13 +218,13 @@ describe('Agent Workflows - Correct Patterns', () => {
       expect(agent.errors).toHaveLength(0);
     });
 
-    it('should handle exit code 1 (general error)', () => {
+    it('should handle exit code 6 (invalid input)', () => {
       const agent = new SimulatedWhoopAgent();
 
       // Invalid date format triggers error
       const result = agent.smartRun('recovery --date not-a-date');
 
-      expect(result.exitCode).toBe(1);
+      expect(result.exitCode).toBe(6);
       expect(agent.errors.length).toBeGreaterThan(0);
     });
 
@@ -283,7 +283,7 @@ describe('Agent Workflows - Anti-Patterns', () => {
         // Should either error or the CLI should reject
         // Agent should know to use YYYY-MM-DD
         if (result.stderr.includes('Invalid date format')) {
-          expect(result.exitCode).toBe(1);
+          expect(result.exitCode).toBe(6);
         }
       }
     });
@@ -583,7 +583,7 @@ describe('Agent Workflows - Safeguards', () => {
 
       // Invalid date format should return error
       const invalidResult = agent.smartRun('recovery --date bad-date');
-      expect(invalidResult.exitCode).toBe(1);
+      expect(invalidResult.exitCode).toBe(6);
     });
   });
 
@@ -0,0 +1,109 @@
+import { describe, it, expect, afterEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, readdirSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Point the cache directory at a scratch dir before the modules read it
+const root = mkdtempSync(join(tmpdir(), 'whoop-cache-'));
+const originalTokenPath = process.env['WHOOP_TOKEN_PATH'];
+process.env['WHOOP_TOKEN_PATH'] = root;
+
+const {
+  getTtl,
+  readCache,
+  writeCache,
+  getCacheDir,
+  getCacheStats,
+  clearCache,
+  STATIC_TTL_MS,
+  RECENT_TTL_MS,
+  SETTLED_TTL_MS,
+} = await import('../src/api/cache.js');
+
+const BASE_URL = 'https://api.example.test';
+const NOW = Date.parse('2026-03-10T12:00:00.000Z');
+const PAST = { start: '2026-03-01T04:00:00.000Z', end: '2026-03-02T04:00:00.000Z', limit: 25 };
+
+afterEach(() => {
+  clearCache();
+});
+
+afterAll(() => {
+  if (originalTokenPath === undefined) {
+    delete process.env['WHOOP_TOKEN_PATH'];
+  } else {
+    process.env['WHOOP_TOKEN_PATH'] = originalTokenPath;
+  }
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('getTtl', () => {
+  it('keeps profile and body for a day', () => {
+    expect(getTtl('/v2/user/profile/basic', {}, {}, NOW)).toBe(STATIC_TTL_MS);
+    expect(getTtl('/v2/user/measurement/body', {}, {}, NOW)).toBe(STATIC_TTL_MS);
+  });
+
+  it('settles scored pages from finished windows', () => {
+    const page = { records: [{ score_state: 'SCORED' }, { score_state: 'SCORED' }] };
+
+    expect(getTtl('/v2/activity/sleep', PAST, page, NOW)).toBe(SETTLED_TTL_MS);
+  });
+
+  it('keeps pages short-lived while the window is open or records are unscored', () => {
+    const scored = { records: [{ score_state: 'SCORED' }] };
+    const pending = { records: [{ score_state: 'PENDING_SCORE' }] };
+    const today = { ...PAST, end: '2026-03-11T04:00:00.000Z' };
+
+    expect(getTtl('/v2/activity/sleep', today, scored, NOW)).toBe(RECENT_TTL_MS);
+    expect(getTtl('/v2/activity/sleep', PAST, pending, NOW)).toBe(RECENT_TTL_MS);
+    expect(getTtl('/v2/activity/sleep', {}, scored, NOW)).toBe(RECENT_TTL_MS);
+  });
+
+  it('keeps empty pages short-lived, since records may sync late', () => {
+    expect(getTtl('/v2/activity/sleep', PAST, { records: [] }, NOW)).toBe(RECENT_TTL_MS);
+  });
+
+  it('settles single records once scored and finished', () => {
+    const finished = { score_state: 'SCORED', end: '2026-03-10T07:00:00.000Z' };
+    const ongoing = { score_state: 'SCORED', end: null };
+
+    expect(getTtl('/v2/cycle/1', {}, finished, NOW)).toBe(SETTLED_TTL_MS);
+    expect(getTtl('/v2/cycle/2', {}, ongoing, NOW)).toBe(RECENT_TTL_MS);
+  });
+});
+
+describe('readCache and writeCache', () => {
+  it('serves a response cached for the same endpoint and parameters', () => {
+    writeCache(BASE_URL, '/v2/activity/sleep', PAST, { records: [{ id: 'a' }] });
+
+    expect(readCache(BASE_URL, '/v2/activity/sleep', PAST)).toEqual({ records: [{ id: 'a' }] });
+    expect(readCache(BASE_URL, '/v2/activity/sleep', { ...PAST, nextToken: 'x' })).toBeUndefined();
+    expect(readCache(BASE_URL, '/v2/recovery', PAST)).toBeUndefined();
+    expect(readCache('https://other.test', '/v2/activity/sleep', PAST)).toBeUndefined();
+  });
+
+  it('writes private entry files', () => {
+    writeCache(BASE_URL, '/v2/user/profile/basic', undefined, { user_id: 1 });
+
+    const files = readdirSync(getCacheDir());
+    expect(files).toHaveLength(1);
+    expect(statSync(join(getCacheDir(), files[0] as string)).mode & 0o777).toBe(0o600);
+  });
+});
+
+describe('getCacheStats and clearCache', () => {
+  it('counts entries by endpoint and removes them', () => {
+    writeCache(BASE_URL, '/v2/activity/sleep', PAST, { records: [] });
+    writeCache(BASE_URL, '/v2/activity/sleep', { ...PAST, nextToken: 'x' }, { records: [] });
+    writeCache(BASE_URL, '/v2/user/profile/basic', undefined, { user_id: 1 });
+
+    const stats = getCacheStats();
+    expect(stats.dir).toBe(join(root, 'cache'));
+    expect(stats).toMatchObject({ entries: 3, fresh: 3, expired: 0 });
+    expect(stats.endpoints).toEqual({ '/v2/activity/sleep': 2, '/v2/user/profile/basic': 1 });
+    expect(stats.bytes).toBeGreaterThan(0);
+
+    expect(clearCache()).toBe(3);
+    expect(getCacheStats().entries).toBe(0);
+  });
+});
@@ -1,6 +1,11 @@
 import { describe, it, expect } from 'vitest';
 import { execSync } from 'node:child_process';
+import { copyFileSync, existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
 import { join } from 'node:path';
+import { encrypt } from '../src/utils/crypto.js';
+import type { AuthStatus } from '../src/types/whoop.js';
+import type { TrendReport } from '../src/utils/trends.js';
 
 const CLI_PATH = join(import.meta.dirname, '..', 'dist', 'cli.js');
 
@@ -29,6 +34,30 @@ function runCLI(args: string): { stdout: string; stderr: string; exitCode: numbe
   }
 }
 
+/**
+ * Run with a scratch copy of the tokens, leaving the shared ones for other tests
+ */
+function withScratchTokens(fn: (dir: string) => void): void {
+  const dir = mkdtempSync(join(tmpdir(), 'whoop-scratch-'));
+  const tokens = {
+    access_token: 'scratch',
+    refresh_token: 'scratch-refresh',
+    expires_at: Date.now() + 3600000,
+    token_type: 'Bearer',
+    scope: 'read:sleep',
+  };
+  writeFileSync(join(dir, 'tokens.json'), JSON.stringify(encrypt(JSON.stringify(tokens))));
+
+  const originalTokenPath = process.env['WHOOP_TOKEN_PATH'];
+  process.env['WHOOP_TOKEN_PATH'] = dir;
+  try {
+    fn(dir);
+  } finally {
+    process.env['WHOOP_TOKEN_PATH'] = originalTokenPath;
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
 describe('CLI', () => {
   describe('--help', () => {
     it('shows help text', () => {
@@ -100,6 +129,491 @@ describe('CLI', () => {
     });
   });
 
+  describe('date range options', () => {
+    it('returns a range-shaped output for --from/--to', () => {
+      const { stdout, exitCode } = runCLI('recovery --from 2026-01-01 --to 2026-01-07');
+
+      expect(exitCode).toBe(0);
+
+      const data = JSON.parse(stdout);
+      expect(data.date).toBe('2026-01-07');
+      expect(data.range.from).toBe('2026-01-01');
+      expect(data.range.to).toBe('2026-01-07');
+      expect(data.range.days).toBe(7);
+    });
+
+    it('supports --days with --to', () => {
+      const { stdout, exitCode } = runCLI('--sleep --to 2026-01-30 --days 30');
+
+      expect(exitCode).toBe(0);
+
+      const data = JSON.parse(stdout);
+      expect(data.range.from).toBe('2026-01-01');
+      expect(data.range.days).toBe(30);
+    });
+
+    it('rejects --date combined with --days', () => {
+      const { stderr, exitCode } = runCLI('sleep --date 2026-01-06 --days 3');
+
+      expect(exitCode).not.toBe(0);
+      expect(stderr).toContain('--date cannot be combined');
+    });
+  });
+
+  describe('single record lookups', () => {
+    it('fetches a sleep by --id', () => {
+      const { stdout, exitCode } = runCLI('sleep --id abc-123');
+
+      expect(exitCode).toBe(0);
+
+      const data = JSON.parse(stdout);
+      expect(data.date).toBe('2026-01-06');
+      expect(data.sleep).toHaveLength(1);
+      expect(data.sleep[0].id).toBe('abc-123');
+    });
+
+    it('fetches the recovery for a cycle with --cycle', () => {
+      const { stdout, exitCode } = runCLI('recovery --cycle 67890');
+
+      expect(exitCode).toBe(0);
+
+      const data = JSON.parse(stdout);
+      expect(data.recovery[0].cycle_id).toBe(67890);
+      expect(data.recovery[0].sleep_id).toBe(12345);
+    });
+
+    it('rejects --id combined with --date', () => {
+      const { stderr, exitCode } = runCLI('workout --id abc --date 2026-01-06');
+
+      expect(exitCode).not.toBe(0);
+      expect(stderr).toContain('cannot be combined');
+    });
+  });
+
+  describe('sync and --offline', () => {
+    it('syncs records and serves them offline', () => {
+      const sync = runCLI('sync');
+      expect(sync.exitCode).toBe(0);
+
+      const result = JSON.parse(sync.stdout);
+      expect(result.types.sleep.total).toBe(1);
+
+      const { stdout, exitCode } = runCLI('sleep --offline --from 2025-12-31 --to 2026-01-01');
+      expect(exitCode).toBe(0);
+
+      const data = JSON.parse(stdout);
+      expect(data.sleep).toHaveLength(1);
+      expect(data.sleep[0].id).toBe(12345);
+    });
+  });
+
+  describe('profiles', () => {
+    it('lists profiles with stored tokens', () => {
+      const { stdout, exitCode } = runCLI('auth list');
+
+      expect(exitCode).toBe(0);
+      expect(JSON.parse(stdout)).toEqual({
+        active: 'default',
+        profiles: [{ name: 'default', active: true }],
+      });
+    });
+
+    it('tags output with the profile', () => {
+      const { stdout } = runCLI('sleep --date 2026-01-06');
+
+      expect(JSON.parse(stdout).profile_name).toBe('default');
+    });
+
+    it('asks to log in to a profile without tokens', () => {
+      const { stderr, exitCode } = runCLI('sleep --profile nobody');
+
+      expect(exitCode).toBe(2);
+      expect(stderr).toContain('whoop auth login --profile nobody');
+    });
+
+    it('refuses to use a profile without tokens', () => {
+      const { stderr, exitCode } = runCLI('auth use nobody');
+
+      expect(exitCode).toBe(2);
+      expect(stderr).toContain('No tokens for profile');
+    });
+  });
+
+  describe('auth login', () => {
+    it('rejects --port 0 with --no-browser', () => {
+      const { stderr, exitCode } = runCLI('auth login --no-browser --port 0');
+
+      expect(exitCode).toBe(6);
+      expect(stderr).toContain('use a fixed --port with --no-browser');
+    });
+  });
+
+  describe('auth status --json', () => {
+    it('prints the status with expiry and missing scopes', () => {
+      const { stdout, exitCode } = runCLI('auth status --json');
+      const status = JSON.parse(stdout) as AuthStatus;
+
+      expect(exitCode).toBe(0);
+      expect(status.authenticated).toBe(true);
+      expect(status.expired).toBe(false);
+      expect(status.seconds_until_expiry).toBeGreaterThan(3600);
+      expect(status.has_refresh_token).toBe(true);
+      expect(status.token_dir).toBe(process.env['WHOOP_TOKEN_PATH']);
+      expect(status.missing_scopes).toContain('offline');
+      expect(status.missing_scopes).not.toContain('read:sleep');
+    });
+
+    it('reports locked tokens instead of failing without a passphrase', () => {
+      withScratchTokens((dir) => {
+        const tokens = { access_token: 'locked', expires_at: Date.now(), scope: '' };
+        writeFileSync(
+          join(dir, 'tokens.json'),
+          JSON.stringify(encrypt(JSON.stringify(tokens), 'hunter2'))
+        );
+
+        const { stdout, exitCode } = runCLI('auth status --json');
+        const status = JSON.parse(stdout) as AuthStatus;
+
+        expect(exitCode).toBe(0);
+        expect(status.authenticated).toBe(false);
+        expect(status.reason).toContain('set WHOOP_PASSPHRASE');
+        expect(status.token_dir).toBe(dir);
+      });
+    });
+  });
+
+  describe('auth logout', () => {
+    it('revokes access before deleting tokens', () => {
+      withScratchTokens((dir) => {
+        const { exitCode } = runCLI('auth logout');
+
+        expect(exitCode).toBe(0);
+        expect(existsSync(join(dir, 'tokens.json'))).toBe(false);
+      });
+    });
+
+    it('keeps tokens when revoking fails', () => {
+      withScratchTokens((dir) => {
+        const originalApiUrl = process.env['WHOOP_API_URL'];
+        process.env['WHOOP_API_URL'] = 'http://127.0.0.1:9/developer';
+        try {
+          const { stderr, exitCode } = runCLI('auth logout');
+
+          expect(exitCode).toBe(5);
+          expect(stderr).toContain('--local-only');
+          expect(existsSync(join(dir, 'tokens.json'))).toBe(true);
+
+          expect(runCLI('auth logout --local-only').exitCode).toBe(0);
+          expect(existsSync(join(dir, 'tokens.json'))).toBe(false);
+        } finally {
+          process.env['WHOOP_API_URL'] = originalApiUrl;
+        }
+      });
+    });
+
+    it('logs out of a profile given before the subcommand', () => {
+      withScratchTokens((dir) => {
+        const aliceDir = join(dir, 'profiles', 'alice');
+        mkdirSync(aliceDir, { recursive: true });
+        copyFileSync(join(dir, 'tokens.json'), join(aliceDir, 'tokens.json'));
+
+        const status = JSON.parse(
+          runCLI('--profile alice auth status --json').stdout
+        ) as AuthStatus;
+        expect(status.token_dir).toBe(aliceDir);
+
+        expect(runCLI('--profile alice auth logout --local-only').exitCode).toBe(0);
+        expect(existsSync(join(aliceDir, 'tokens.json'))).toBe(false);
+        expect(existsSync(join(dir, 'tokens.json'))).toBe(true);
+      });
+    });
+  });
+
+  describe('config', () => {
+    it('applies config defaults below flags and env', () => {
+      withScratchTokens(() => {
+        expect(runCLI('config set format csv').exitCode).toBe(0);
+
+        expect(runCLI('sleep --date 2026-01-06').stdout).toMatch(/^type,profile_name,id,/);
+        expect(runCLI('sleep --date 2026-01-06 --format json').stdout).toMatch(/^\{/);
+
+        const { stdout } = runCLI('config list');
+        const list = JSON.parse(stdout) as {
+          settings: Record<string, { value: string | null; source: string }>;
+        };
+        expect(list.settings['format']).toMatchObject({ value: 'csv', source: 'config' });
+        expect(list.settings['api_url']?.source).toBe('env');
+      });
+    });
+
+    it('masks secrets and rejects invalid values', () => {
+      withScratchTokens(() => {
+        runCLI('config set client_secret shh');
+
+        expect(runCLI('config list').stdout).not.toContain('shh');
+        expect(runCLI('config get client_secret').stdout.trim()).toBe('shh');
+
+        const { stderr, exitCode } = runCLI('config set cutoff_hour 25');
+        expect(exitCode).toBe(6);
+        expect(stderr).toContain('Invalid value for cutoff_hour');
+      });
+    });
+  });
+
+  describe('--limit', () => {
+    it('rejects pages larger than the API allows', () => {
+      const { stderr, exitCode } = runCLI('sleep --limit 26');
+
+      expect(exitCode).toBe(6);
+      expect(stderr).toContain('--limit must be an integer from 1 to 25');
+    });
+  });
+
+  describe('--timeout', () => {
+    it('rejects a non-positive timeout', () => {
+      const { stderr, exitCode } = runCLI('sleep --date 2026-01-06 --timeout 0');
+
+      expect(exitCode).toBe(6);
+      expect(stderr).toContain('--timeout must be a positive integer');
+    });
+
+    it('accepts a timeout that the API answers within', () => {
+      expect(runCLI('sleep --date 2026-01-06 --timeout 10000 --no-cache').exitCode).toBe(0);
+    });
+  });
+
+  describe('wake', () => {
+    it('reports the model and, with --explain, what would flip the decision', () => {
+      withScratchTokens(() => {
+        runCLI('config set wake_cutoff 5');
+        const { stdout, exitCode } = runCLI('wake --explain');
+        const result = JSON.parse(stdout) as {
+          model: { cutoff: number };
+          explanation: { cutoff: number; checks: unknown[]; summary: string };
+        };
+
+        expect(exitCode).toBe(0);
+        expect(result.model.cutoff).toBe(5);
+        expect(result.explanation.cutoff).toBe(5);
+        expect(result.explanation.checks).toHaveLength(5);
+      });
+    });
+
+    it('backtests over finished days', () => {
+      const { stdout, exitCode } = runCLI('wake backtest --days 3');
+      const report = JSON.parse(stdout) as { from: string; to: string; summary: object };
+
+      expect(exitCode).toBe(0);
+      expect(Date.parse(report.to) - Date.parse(report.from)).toBe(2 * 86400000);
+      expect(report.summary).toHaveProperty('precision');
+      expect(runCLI('wake backtest --days 0').exitCode).toBe(6);
+    });
+
+    it('with --wait, exits as soon as the sleep counts as awake', () => {
+      withScratchTokens(() => {
+        const { stdout, exitCode } = runCLI('wake --wait --until 23:59 --tz UTC');
+        const result = JSON.parse(stdout) as { isAwake: boolean };
+
+        expect(exitCode).toBe(0);
+        expect(result.isAwake).toBe(true);
+      });
+    });
+
+    it('with --wait, exits 10 once the deadline passes', () => {
+      withScratchTokens(() => {
+        runCLI('config set wake_cutoff 10');
+        const { stdout, exitCode } = runCLI(
+          'wake --wait --interval 1s --until 2026-01-01T00:00:00Z --tz UTC 2>&1'
+        );
+
+        expect(exitCode).toBe(10);
+        expect(stdout).toMatch(
+          /Attempt 1: sleep 12345 ended 08:00 local, score \d+\/10: not awake/
+        );
+        expect(stdout).toContain('deadline passed');
+        expect(stdout).toContain('"isAwake": false');
+        expect(stdout).toContain('No wake-up detected by 2026-01-01T00:00:00Z');
+      });
+    });
+
+    it('rejects --wait without a valid deadline or interval', () => {
+      expect(runCLI('wake --wait').stderr).toContain('--wait needs a deadline');
+      expect(runCLI('wake --wait --until 11:00 --interval 5').exitCode).toBe(6);
+    });
+
+    it('rejects unknown model parameters', () => {
+      withScratchTokens(() => {
+        const { stderr, exitCode } = runCLI('config set wake_weights naps=2');
+
+        expect(exitCode).toBe(6);
+        expect(stderr).toContain('Unknown wake parameter: naps');
+      });
+    });
+  });
+
+  describe('schema validation', () => {
+    // The mock API returns sleeps without most of their fields
+    it('warns about records that do not match the schema', () => {
+      const { stdout, exitCode } = runCLI('sleep --date 2026-01-06 --no-cache 2>&1');
+
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain(
+        'Warning: unexpected API response for sleep 12345: id: expected string'
+      );
+    });
+
+    it('fails with --strict-schema', () => {
+      const { stderr, exitCode } = runCLI('sleep --date 2026-01-06 --no-cache --strict-schema');
+
+      expect(exitCode).toBe(9);
+      expect(stderr).toContain('Unexpected API response for sleep 12345');
+    });
+  });
+
+  describe('--error-format', () => {
+    it('writes a JSON error report to stderr', () => {
+      const { stderr, exitCode } = runCLI('sleep --date bad --error-format json');
+      const report = JSON.parse(stderr) as Record<string, unknown>;
+
+      expect(exitCode).toBe(6);
+      expect(report).toMatchObject({ code: 'INVALID_INPUT', exit_code: 6, http_status: null });
+      expect(report['error']).toContain('Invalid date');
+      expect(report['hint']).toBe('run: whoop --help');
+    });
+
+    it('reports usage errors as JSON too', () => {
+      const { stderr, exitCode } = runCLI('sleep --error-format json --bogus');
+
+      expect(exitCode).toBe(6);
+      expect(JSON.parse(stderr)).toMatchObject({ code: 'INVALID_INPUT' });
+    });
+
+    it('switches to JSON when configured as auto and stdout is piped', () => {
+      process.env['WHOOP_ERROR_FORMAT'] = 'auto';
+      try {
+        const { stderr, exitCode } = runCLI('sleep --date bad');
+
+        expect(exitCode).toBe(6);
+        expect(JSON.parse(stderr)).toMatchObject({ code: 'INVALID_INPUT' });
+      } finally {
+        delete process.env['WHOOP_ERROR_FORMAT'];
+      }
+    });
+
+    it('rejects unknown formats', () => {
+      const { stderr, exitCode } = runCLI('sleep --error-format xml');
+
+      expect(exitCode).toBe(6);
+      expect(stderr).toContain('Allowed choices are text, json, auto');
+    });
+  });
+
+  describe('cache', () => {
+    it('caches responses unless --no-cache, and clears them', () => {
+      withScratchTokens(() => {
+        expect(runCLI('body --no-cache').exitCode).toBe(0);
+        expect(JSON.parse(runCLI('cache stats').stdout)).toMatchObject({ entries: 0 });
+        expect(runCLI('--no-cache body').exitCode).toBe(0);
+        expect(JSON.parse(runCLI('cache stats').stdout)).toMatchObject({ entries: 0 });
+
+        expect(runCLI('body').exitCode).toBe(0);
+        const stats = JSON.parse(runCLI('cache stats').stdout) as {
+          entries: number;
+          endpoints: Record<string, number>;
+        };
+        expect(stats.entries).toBe(1);
+        expect(stats.endpoints).toEqual({ '/v2/user/measurement/body': 1 });
+
+        expect(runCLI('cache clear').exitCode).toBe(0);
+        expect(JSON.parse(runCLI('cache stats').stdout)).toMatchObject({ entries: 0 });
+      });
+    });
+
+    it('does not cache responses that drift from the schema', () => {
+      withScratchTokens(() => {
+        // The mock sleep records are sparse, so they fail validation
+        expect(runCLI('sleep --date 2026-01-06').exitCode).toBe(0);
+        expect(JSON.parse(runCLI('cache stats').stdout)).toMatchObject({ entries: 0 });
+      });
+    });
+  });
+
+  describe('token export', () => {
+    it('exports an encrypted bundle and prints the scopes', () => {
+      process.env['WHOOP_BUNDLE_PASSPHRASE'] = 'test-passphrase';
+      try {
+        const { stdout, exitCode } = runCLI('auth export');
+        const bundle = JSON.parse(stdout) as { type: string; scopes: string[]; tokens: object };
+
+        expect(exitCode).toBe(0);
+        expect(bundle.type).toBe('whoop-cli-tokens');
+        expect(bundle.scopes).toContain('read:sleep');
+        expect(stdout).not.toContain('mock_test_access_token');
+      } finally {
+        delete process.env['WHOOP_BUNDLE_PASSPHRASE'];
+      }
+    });
+
+    it('needs a passphrase when not interactive', () => {
+      const { stderr, exitCode } = runCLI('auth export');
+
+      expect(exitCode).toBe(6);
+      expect(stderr).toContain('WHOOP_BUNDLE_PASSPHRASE');
+    });
+
+    it('reports a missing bundle file', () => {
+      const { stderr, exitCode } = runCLI('auth import missing-bundle.json');
+
+      expect(exitCode).toBe(8);
+      expect(stderr).toContain('Token bundle not found');
+    });
+  });
+
+  describe('trends command', () => {
+    it('reports baselines for each metric', () => {
+      const { stdout, exitCode } = runCLI('trends --date 2026-01-06');
+
+      expect(exitCode).toBe(0);
+
+      const report = JSON.parse(stdout) as TrendReport;
+      expect(report.as_of).toBe('2026-01-06');
+      expect(report.windows).toEqual([7, 30, 90]);
+      expect(report.metrics.map((m) => m.metric)).toContain('hrv');
+      expect(Array.isArray(report.flags)).toBe(true);
+    });
+  });
+
+  describe('--format option', () => {
+    it('outputs CSV with a header row', () => {
+      const { stdout, exitCode } = runCLI('sleep --date 2026-01-06 --format csv');
+
+      expect(exitCode).toBe(0);
+
+      const lines = stdout.trim().split('\n');
+      expect(lines[0]).toMatch(/^type,profile_name,id,/);
+      expect(lines[1]).toMatch(/^sleep,default,12345,/);
+    });
+
+    it('outputs NDJSON, one record per line', () => {
+      const { stdout, exitCode } = runCLI('--sleep --cycle --date 2026-01-06 --format ndjson');
+
+      expect(exitCode).toBe(0);
+
+      const records = stdout
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      expect(records.map((r) => r.type).sort()).toEqual(['cycle', 'sleep']);
+    });
+
+    it('rejects unknown formats', () => {
+      const { stderr, exitCode } = runCLI('sleep --format xml');
+
+      expect(exitCode).not.toBe(0);
+      expect(stderr).toContain('Invalid format');
+    });
+  });
+
   describe('invalid date handling', () => {
     it('rejects invalid date format', () => {
       const { stderr, exitCode } = runCLI('sleep --date invalid');
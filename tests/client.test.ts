@@ -1,4 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 // Mock the tokens module before importing client
 vi.mock('../src/auth/tokens.js', () => ({
@@ -20,8 +23,26 @@ import {
   getWorkout,
   getCycle,
   fetchData,
+  setRetryPolicy,
+  getSleepById,
+  getWorkoutById,
+  getCycleById,
+  getRecoveryForCycle,
+  getSleepForCycle,
+  iterateSleep,
+  iterateCycle,
+  WhoopClient,
 } from '../src/api/client.js';
-import { WhoopError, RateLimitError, ExitCode } from '../src/utils/errors.js';
+import { DEFAULT_RETRY_POLICY } from '../src/api/retry.js';
+import { getStoreDir, writeStore } from '../src/utils/store.js';
+import type { WhoopSleep } from '../src/types/whoop.js';
+import {
+  WhoopError,
+  RateLimitError,
+  TimeoutError,
+  SchemaError,
+  ExitCode,
+} from '../src/utils/errors.js';
 
 describe('API Client', () => {
   const mockFetch = vi.fn();
@@ -106,7 +127,7 @@ describe('API Client', () => {
       });
 
       expect(result).toHaveLength(1);
-      expect(result[0]?.score.recovery_score).toBe(72);
+      expect(result[0]?.score?.recovery_score).toBe(72);
     });
 
     it('fetches all pages when all=true', async () => {
@@ -158,7 +179,7 @@ describe('API Client', () => {
       });
 
       expect(result).toHaveLength(1);
-      expect(result[0]?.score.sleep_performance_percentage).toBe(85);
+      expect(result[0]?.score?.sleep_performance_percentage).toBe(85);
     });
   });
 
@@ -183,7 +204,7 @@ describe('API Client', () => {
       const result = await getWorkout({});
 
       expect(result).toHaveLength(1);
-      expect(result[0]?.score.strain).toBe(12.5);
+      expect(result[0]?.score?.strain).toBe(12.5);
     });
   });
 
@@ -212,7 +233,390 @@ describe('API Client', () => {
     });
   });
 
+  describe('WhoopClient', () => {
+    const okResponse = (body: object): Response =>
+      ({ ok: true, json: () => Promise.resolve(body) }) as Response;
+
+    it('uses its own base URL, token provider, fetch and User-Agent', async () => {
+      const ownFetch = vi.fn().mockResolvedValue(okResponse({ user_id: 7 }));
+      const client = new WhoopClient({
+        baseUrl: 'https://whoop.internal/developer',
+        tokenProvider: (): string => 'user-7-token',
+        fetch: ownFetch,
+        userAgent: 'my-server/1.0',
+      });
+
+      await expect(client.getProfile()).resolves.toEqual({ user_id: 7 });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(ownFetch).toHaveBeenCalledWith(
+        'https://whoop.internal/developer/v2/user/profile/basic',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'Bearer user-7-token',
+            'User-Agent': 'my-server/1.0',
+          }),
+        })
+      );
+    });
+
+    it('keeps clients independent', async () => {
+      const tokens: string[] = [];
+      const ownFetch = vi.fn((_url: string | URL | Request, init?: RequestInit) => {
+        tokens.push((init?.headers as Record<string, string>)['Authorization'] ?? '');
+        return Promise.resolve(okResponse({ records: [] }));
+      });
+      const alice = new WhoopClient({ tokenProvider: (): string => 'alice', fetch: ownFetch });
+      const bob = new WhoopClient({
+        tokenProvider: (): Promise<string> => Promise.resolve('bob'),
+        fetch: ownFetch,
+      });
+
+      await alice.fetchData(['sleep'], '2026-01-06');
+      await bob.fetchData(['sleep'], '2026-01-06');
+
+      expect(tokens).toEqual(['Bearer alice', 'Bearer bob']);
+    });
+
+    it('reads offline data from its own dataDir and reports its profile name', async () => {
+      const dataDir = mkdtempSync(join(tmpdir(), 'whoop-client-'));
+      const ownFetch = vi.fn();
+      writeStore(
+        'sleep',
+        [
+          {
+            id: 'a',
+            start: '2026-01-06T12:00:00.000Z',
+            end: '2026-01-06T13:00:00.000Z',
+          } as WhoopSleep,
+        ],
+        '2026-01-07T00:00:00.000Z',
+        getStoreDir(dataDir)
+      );
+
+      try {
+        const client = new WhoopClient({ fetch: ownFetch, dataDir, profileName: 'alice' });
+        const result = await client.fetchData(['sleep'], '2026-01-06', { offline: true });
+
+        expect(result.profile_name).toBe('alice');
+        expect(result.sleep).toHaveLength(1);
+        expect(ownFetch).not.toHaveBeenCalled();
+      } finally {
+        rmSync(dataDir, { recursive: true, force: true });
+      }
+    });
+
+    it('keeps cache, retry and schema settings per client', async () => {
+      const dataDir = mkdtempSync(join(tmpdir(), 'whoop-client-'));
+      const body = { height_meter: 1.78, weight_kilogram: 75, max_heart_rate: 185 };
+      const cachedFetch = vi.fn().mockResolvedValue(okResponse(body));
+      const plainFetch = vi.fn().mockResolvedValue(okResponse(body));
+      const tokenProvider = (): string => 'token';
+
+      try {
+        const cached = new WhoopClient({ tokenProvider, fetch: cachedFetch, dataDir, cache: true });
+        const plain = new WhoopClient({ tokenProvider, fetch: plainFetch, dataDir });
+
+        await cached.getBody();
+        await cached.getBody();
+        await plain.getBody();
+        await plain.getBody();
+
+        expect(cachedFetch).toHaveBeenCalledTimes(1);
+        expect(plainFetch).toHaveBeenCalledTimes(2);
+
+        cached.configure({ cache: { refresh: true } });
+        await cached.getBody();
+        expect(cachedFetch).toHaveBeenCalledTimes(2);
+
+        // The module-level setters only configure the default client
+        setRetryPolicy({ maxAttempts: 1 });
+        expect(plain.getSettings()).toMatchObject({
+          retryPolicy: DEFAULT_RETRY_POLICY,
+          cache: { enabled: false, refresh: false },
+          schema: { strict: false },
+        });
+      } finally {
+        setRetryPolicy(DEFAULT_RETRY_POLICY);
+        rmSync(dataDir, { recursive: true, force: true });
+      }
+    });
+
+    it('has no profile name or store without the options', async () => {
+      const ownFetch = vi.fn().mockResolvedValue(okResponse({ records: [] }));
+      const client = new WhoopClient({ tokenProvider: (): string => 'token', fetch: ownFetch });
+
+      const result = await client.fetchData(['sleep'], '2026-01-06');
+      const error: unknown = await client
+        .fetchData(['sleep'], '2026-01-06', { offline: true })
+        .catch((e: unknown) => e);
+
+      expect(result).not.toHaveProperty('profile_name');
+      expect(error).toBeInstanceOf(WhoopError);
+      expect((error as WhoopError).exitCode).toBe(ExitCode.INVALID_INPUT);
+    });
+  });
+
+  describe('schema validation', () => {
+    const page = {
+      records: [{ id: 'a', score_state: 'PENDING_SCORE', nap: 'no' }],
+      next_token: null,
+    };
+    const pageFetch = (): typeof fetch =>
+      vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve(page) });
+
+    it('reports drift by record ID and path, and still returns the data', async () => {
+      const onDrift = vi.fn();
+      const client = new WhoopClient({
+        tokenProvider: (): string => 'token',
+        fetch: pageFetch(),
+        schema: { onDrift },
+      });
+
+      await expect(client.getSleep()).resolves.toEqual(page.records);
+
+      expect(onDrift).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'sleep',
+          endpoint: '/v2/activity/sleep',
+          id: 'a',
+          issues: expect.arrayContaining([
+            { path: 'nap', expected: 'boolean', received: 'string' },
+          ]),
+        })
+      );
+    });
+
+    it('fails with SchemaError when strict', async () => {
+      const client = new WhoopClient({
+        tokenProvider: (): string => 'token',
+        fetch: pageFetch(),
+        schema: { strict: true },
+      });
+
+      await expect(client.getSleep()).rejects.toThrow(SchemaError);
+      await expect(client.getCycleById(1)).rejects.toThrow(/Unexpected API response for cycle/);
+    });
+
+    it('only caches responses that match the schema', async () => {
+      const dataDir = mkdtempSync(join(tmpdir(), 'whoop-client-'));
+      const drifted = pageFetch();
+      const empty = vi.fn().mockResolvedValue({
+        ok: true,
+        json: (): Promise<unknown> => Promise.resolve({ records: [], next_token: null }),
+      });
+      const options = {
+        tokenProvider: (): string => 'token',
+        cache: true,
+        dataDir,
+        schema: { onDrift: vi.fn() },
+      };
+
+      try {
+        const driftedClient = new WhoopClient({ ...options, fetch: drifted });
+        await driftedClient.getSleep({ limit: 7 });
+        await driftedClient.getSleep({ limit: 7 });
+
+        const emptyClient = new WhoopClient({ ...options, fetch: empty });
+        await emptyClient.getSleep({ limit: 8 });
+        await emptyClient.getSleep({ limit: 8 });
+
+        expect(drifted).toHaveBeenCalledTimes(2);
+        expect(empty).toHaveBeenCalledTimes(1);
+      } finally {
+        rmSync(dataDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('timeouts and cancellation', () => {
+    // A connection that never answers, until the request is aborted
+    const hangingFetch = vi.fn(
+      (_url: string | URL | Request, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          const abort = (): void => reject(init?.signal?.reason as Error);
+          if (init?.signal?.aborted) {
+            abort();
+          }
+          init?.signal?.addEventListener('abort', abort);
+        })
+    );
+
+    it('throws TimeoutError when a request exceeds timeoutMs', async () => {
+      const client = new WhoopClient({
+        tokenProvider: (): string => 'token',
+        fetch: hangingFetch,
+        timeoutMs: 20,
+      });
+
+      const error: unknown = await client.getBody().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect((error as TimeoutError).exitCode).toBe(ExitCode.TIMEOUT);
+      expect((error as TimeoutError).message).toBe('Request timed out after 20ms');
+    });
+
+    it('cancels fetchData through an AbortSignal', async () => {
+      const client = new WhoopClient({
+        tokenProvider: (): string => 'token',
+        fetch: hangingFetch,
+        timeoutMs: 60_000,
+      });
+      const controller = new AbortController();
+
+      const pending = client.fetchData(['sleep', 'recovery'], '2026-01-06', {
+        signal: controller.signal,
+        strict: true,
+      });
+      controller.abort(new Error('cancelled by caller'));
+
+      await expect(pending).rejects.toThrow('cancelled by caller');
+    });
+
+    it('cancels iterators through an AbortSignal', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('cancelled before start'));
+
+      const client = new WhoopClient({ tokenProvider: (): string => 'token', fetch: hangingFetch });
+      const records = client.iterateCycle({ signal: controller.signal })[Symbol.asyncIterator]();
+
+      await expect(records.next()).rejects.toThrow('cancelled before start');
+    });
+  });
+
+  describe('iterators', () => {
+    // Serve pages of two records each, four records in total
+    const serve = (): void => {
+      mockFetch.mockImplementation((url: string) => {
+        const { searchParams } = new URL(url);
+        const token = searchParams.get('nextToken');
+        const page = token === null ? 0 : Number(token);
+        const limit = Number(searchParams.get('limit'));
+        return Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              records: [{ id: page * 2 + 1 }, { id: page * 2 + 2 }].slice(0, limit),
+              next_token: page < 1 ? String(page + 1) : undefined,
+            }),
+        });
+      });
+    };
+    const requested = (param: string): (string | null)[] =>
+      mockFetch.mock.calls.map((call) => new URL(call[0] as string).searchParams.get(param));
+
+    it('yields every record across pages', async () => {
+      serve();
+      const ids: number[] = [];
+
+      for await (const sleep of iterateSleep({ limit: 2 })) {
+        ids.push(sleep.id as unknown as number);
+      }
+
+      expect(ids).toEqual([1, 2, 3, 4]);
+      expect(requested('nextToken')).toEqual([null, '1']);
+    });
+
+    it('stops fetching on early break', async () => {
+      serve();
+
+      for await (const cycle of iterateCycle({ limit: 2 })) {
+        expect(cycle.id).toBe(1);
+        break;
+      }
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('caps records with maxRecords, asking only for what is left', async () => {
+      serve();
+      const ids: unknown[] = [];
+
+      for await (const sleep of iterateSleep({ limit: 2, maxRecords: 3 })) {
+        ids.push(sleep.id);
+      }
+
+      expect(ids).toHaveLength(3);
+      expect(requested('limit')).toEqual(['2', '1']);
+    });
+
+    it('yields pages with next_token and resumes from nextToken', async () => {
+      serve();
+      const pages = [];
+
+      for await (const page of iterateSleep({ limit: 2 }).pages()) {
+        pages.push(page);
+        break;
+      }
+      expect(pages[0]?.next_token).toBe('1');
+
+      const resumed = [];
+      for await (const page of iterateSleep({ limit: 2, nextToken: '1' }).pages()) {
+        resumed.push(page);
+      }
+
+      expect(resumed).toHaveLength(1);
+      expect(resumed[0]?.records).toEqual([{ id: 3 }, { id: 4 }]);
+      expect(resumed[0]?.next_token).toBeUndefined();
+    });
+  });
+
+  describe('single record fetchers', () => {
+    const respond = (body: object): void => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(body) });
+    };
+    const calledPath = (): string => new URL(mockFetch.mock.calls[0]?.[0] as string).pathname;
+
+    it('fetches a sleep by ID', async () => {
+      respond({ id: 'ecfc6a15-4661-442f-a9a4-f160dd7afae8' });
+
+      const result = await getSleepById('ecfc6a15-4661-442f-a9a4-f160dd7afae8');
+
+      expect(result.id).toBe('ecfc6a15-4661-442f-a9a4-f160dd7afae8');
+      expect(calledPath()).toMatch(/\/v2\/activity\/sleep\/ecfc6a15-4661-442f-a9a4-f160dd7afae8$/);
+    });
+
+    it('fetches a workout by ID', async () => {
+      respond({ id: 'w1' });
+      await getWorkoutById('w1');
+      expect(calledPath()).toMatch(/\/v2\/activity\/workout\/w1$/);
+    });
+
+    it('fetches a cycle by ID', async () => {
+      respond({ id: 93845 });
+      await getCycleById(93845);
+      expect(calledPath()).toMatch(/\/v2\/cycle\/93845$/);
+    });
+
+    it('fetches the recovery for a cycle', async () => {
+      respond({ cycle_id: 93845, sleep_id: 'abc' });
+      const result = await getRecoveryForCycle(93845);
+      expect(result.cycle_id).toBe(93845);
+      expect(calledPath()).toMatch(/\/v2\/cycle\/93845\/recovery$/);
+    });
+
+    it('fetches the sleep for a cycle', async () => {
+      respond({ id: 'abc' });
+      await getSleepForCycle(93845);
+      expect(calledPath()).toMatch(/\/v2\/cycle\/93845\/sleep$/);
+    });
+
+    it('encodes IDs in the path', async () => {
+      respond({});
+      await getSleepById('a/b');
+      expect(calledPath()).toMatch(/\/v2\/activity\/sleep\/a%2Fb$/);
+    });
+  });
+
   describe('error handling', () => {
+    beforeEach(() => {
+      setRetryPolicy({ maxAttempts: 1 });
+    });
+
+    afterEach(() => {
+      setRetryPolicy(DEFAULT_RETRY_POLICY);
+    });
+
     it('throws AuthError on 401', async () => {
       mockFetch.mockResolvedValue({
         ok: false,
@@ -256,6 +660,72 @@ describe('API Client', () => {
     });
   });
 
+  describe('retries', () => {
+    beforeEach(() => {
+      setRetryPolicy({ maxAttempts: 3, baseDelayMs: 0, jitter: 0 });
+    });
+
+    afterEach(() => {
+      setRetryPolicy(DEFAULT_RETRY_POLICY);
+    });
+
+    it('retries 5xx responses and succeeds', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ user_id: 123 }),
+        });
+
+      const result = await getProfile();
+
+      expect(result).toEqual({ user_id: 123 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('retries 429 after the Retry-After delay', async () => {
+      vi.useFakeTimers();
+      try {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: false,
+            status: 429,
+            statusText: 'Too Many Requests',
+            headers: new Headers({ 'retry-after': '2' }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: () => Promise.resolve({ user_id: 123 }),
+          });
+
+        const pending = getProfile();
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(pending).resolves.toEqual({ user_id: 123 });
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('does not retry 4xx responses', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' });
+
+      await expect(getProfile()).rejects.toThrow(WhoopError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws the last error after max attempts', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500, statusText: 'Internal Server Error' });
+
+      const error = (await getProfile().catch((e: unknown) => e)) as WhoopError;
+      expect(error.httpStatus).toBe(500);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe('fetchData', () => {
     it('fetches multiple data types in parallel', async () => {
       mockFetch
@@ -298,5 +768,108 @@ describe('API Client', () => {
       expect(result.workout).toBeUndefined();
       expect(mockFetch).toHaveBeenCalledTimes(1);
     });
+
+    describe('partial failures', () => {
+      beforeEach(() => {
+        setRetryPolicy({ maxAttempts: 1 });
+        mockFetch.mockImplementation((url: string) =>
+          Promise.resolve(
+            url.includes('/v2/activity/workout')
+              ? { ok: false, status: 403, statusText: 'Forbidden' }
+              : {
+                  ok: true,
+                  json: (): Promise<unknown> => Promise.resolve({ records: [{ id: 1 }] }),
+                }
+          )
+        );
+      });
+
+      afterEach(() => {
+        setRetryPolicy(DEFAULT_RETRY_POLICY);
+      });
+
+      it('returns successful types alongside per-type errors', async () => {
+        const result = await fetchData(['recovery', 'sleep', 'workout'], '2026-01-12');
+
+        expect(result.recovery).toHaveLength(1);
+        expect(result.sleep).toHaveLength(1);
+        expect(result.workout).toBeUndefined();
+        expect(result.errors).toEqual([
+          {
+            type: 'workout',
+            http_status: 403,
+            message: 'API request failed: Forbidden',
+            exit_code: ExitCode.MISSING_SCOPE,
+          },
+        ]);
+      });
+
+      it('omits errors when everything succeeds', async () => {
+        const result = await fetchData(['recovery', 'sleep'], '2026-01-12');
+
+        expect(result.errors).toBeUndefined();
+      });
+
+      it('throws when every type fails', async () => {
+        await expect(fetchData(['workout'], '2026-01-12')).rejects.toThrow(WhoopError);
+      });
+
+      it('fails fast with strict', async () => {
+        await expect(
+          fetchData(['recovery', 'workout'], '2026-01-12', { strict: true })
+        ).rejects.toThrow('Forbidden');
+      });
+    });
+
+    it('omits range for a single day', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ records: [] }),
+      });
+
+      const result = await fetchData(['recovery'], { from: '2026-01-12', to: '2026-01-12' });
+
+      expect(result.date).toBe('2026-01-12');
+      expect(result.range).toBeUndefined();
+    });
+
+    it('fetches a date range as one paginated window', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ records: [{ cycle_id: 1 }], next_token: 'page2' }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ records: [{ cycle_id: 2 }] }),
+        });
+
+      const result = await fetchData(['recovery'], { from: '2026-01-01', to: '2026-01-30' });
+
+      expect(result.date).toBe('2026-01-30');
+      expect(result.range).toMatchObject({ from: '2026-01-01', to: '2026-01-30', days: 30 });
+      expect(result.recovery).toHaveLength(2);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      const url = new URL(mockFetch.mock.calls[0]?.[0] as string);
+      expect(url.searchParams.get('start')).toBe(result.range?.start);
+      expect(url.searchParams.get('end')).toBe(result.range?.end);
+    });
+
+    it('fetches a single page of a range when all=false', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ records: [{ cycle_id: 1 }], next_token: 'page2' }),
+      });
+
+      const result = await fetchData(
+        ['recovery'],
+        { from: '2026-01-01', to: '2026-01-30' },
+        { all: false }
+      );
+
+      expect(result.recovery).toHaveLength(1);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
   });
 });
@@ -0,0 +1,95 @@
+import { describe, it, expect, afterEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Point the config directory at a scratch dir before the modules read it
+const root = mkdtempSync(join(tmpdir(), 'whoop-config-'));
+const originalTokenPath = process.env['WHOOP_TOKEN_PATH'];
+process.env['WHOOP_TOKEN_PATH'] = root;
+
+const {
+  getSetting,
+  resolveSetting,
+  listSettings,
+  setConfigValue,
+  unsetConfigValue,
+  getConfigFile,
+  CONFIG_KEYS,
+} = await import('../src/utils/config.js');
+
+afterEach(() => {
+  delete process.env['WHOOP_FORMAT'];
+  for (const key of CONFIG_KEYS) {
+    unsetConfigValue(key);
+  }
+});
+
+afterAll(() => {
+  if (originalTokenPath === undefined) {
+    delete process.env['WHOOP_TOKEN_PATH'];
+  } else {
+    process.env['WHOOP_TOKEN_PATH'] = originalTokenPath;
+  }
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('resolveSetting', () => {
+  it('falls back to the built-in default', () => {
+    expect(resolveSetting('format')).toEqual({ key: 'format', value: 'json', source: 'default' });
+    expect(resolveSetting('types')).toEqual({ key: 'types', source: 'unset' });
+  });
+
+  it('prefers the config file over the default', () => {
+    setConfigValue('format', 'csv');
+
+    expect(resolveSetting('format')).toEqual({ key: 'format', value: 'csv', source: 'config' });
+    expect(getConfigFile()).toBe(join(root, 'config.json'));
+  });
+
+  it('prefers the environment over the config file', () => {
+    setConfigValue('format', 'csv');
+    process.env['WHOOP_FORMAT'] = 'tsv';
+
+    expect(getSetting('format')).toBe('tsv');
+    expect(resolveSetting('format').source).toBe('env');
+  });
+});
+
+describe('setConfigValue', () => {
+  it('rejects unknown keys and invalid values', () => {
+    expect(() => setConfigValue('colour', 'blue')).toThrow('Unknown config key');
+    expect(() => setConfigValue('format', 'xml')).toThrow('must be one of');
+    expect(() => setConfigValue('tz', 'Mars/Olympus')).toThrow('IANA time zone');
+    expect(() => setConfigValue('cutoff_hour', '24')).toThrow('from 0 to 23');
+    expect(() => setConfigValue('types', 'sleep,naps')).toThrow('comma-separated list');
+    expect(() => setConfigValue('limit', '')).toThrow('cannot be empty');
+    expect(() => setConfigValue('limit', '100')).toThrow('from 1 to 25');
+  });
+
+  it('stores client credentials encrypted', () => {
+    setConfigValue('client_secret', 'super-secret');
+    setConfigValue('units', 'imperial');
+
+    const file = readFileSync(getConfigFile(), 'utf8');
+    expect(file).not.toContain('super-secret');
+    expect(file).toContain('imperial');
+    expect(getSetting('client_secret')).toBe('super-secret');
+  });
+});
+
+describe('unsetConfigValue', () => {
+  it('removes a setting and reports whether it was set', () => {
+    setConfigValue('cutoff_hour', '5');
+
+    expect(unsetConfigValue('cutoff_hour')).toBe(true);
+    expect(unsetConfigValue('cutoff_hour')).toBe(false);
+    expect(getSetting('cutoff_hour')).toBe('4');
+  });
+});
+
+describe('listSettings', () => {
+  it('resolves every key', () => {
+    expect(listSettings().map((setting) => setting.key)).toEqual(CONFIG_KEYS);
+  });
+});
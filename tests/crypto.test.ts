@@ -1,5 +1,30 @@
 import { describe, it, expect } from 'vitest';
-import { encrypt, decrypt, canDecrypt } from '../src/utils/crypto.js';
+import { createCipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { hostname, userInfo } from 'node:os';
+import {
+  encrypt,
+  decrypt,
+  canDecrypt,
+  isPassphraseProtected,
+  isLegacyFormat,
+  type EncryptedData,
+} from '../src/utils/crypto.js';
+
+// Version 1: machine key with a static salt
+function encryptV1(data: string): EncryptedData {
+  const machineId = [hostname(), userInfo().username, process.env['HOME'] ?? ''].join(':');
+  const key = scryptSync(machineId, 'whoop-cli-v1', 32);
+  const iv = randomBytes(16);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = cipher.update(data, 'utf8', 'base64') + cipher.final('base64');
+
+  return {
+    encrypted,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    version: 1,
+  };
+}
 
 describe('encrypt', () => {
   it('encrypts data and returns encrypted object', () => {
@@ -10,7 +35,15 @@ describe('encrypt', () => {
     expect(result).toHaveProperty('iv');
     expect(result).toHaveProperty('tag');
     expect(result).toHaveProperty('version');
-    expect(result.version).toBe(1);
+    expect(result.version).toBe(2);
+  });
+
+  it('uses a random salt per encryption', () => {
+    const result1 = encrypt('secret data');
+    const result2 = encrypt('secret data');
+
+    expect(Buffer.from(result1.salt ?? '', 'base64')).toHaveLength(16);
+    expect(result1.salt).not.toBe(result2.salt);
   });
 
   it('produces different ciphertext for same plaintext (random IV)', () => {
@@ -80,6 +113,41 @@ describe('decrypt', () => {
   });
 });
 
+describe('version 1', () => {
+  it('still decrypts machine-keyed version 1 data', () => {
+    const legacy = encryptV1('old token');
+
+    expect(isLegacyFormat(legacy)).toBe(true);
+    expect(decrypt(legacy)).toBe('old token');
+  });
+
+  it('is not treated as passphrase protected', () => {
+    expect(isPassphraseProtected(encryptV1('old token'))).toBe(false);
+    expect(isLegacyFormat(encrypt('new token'))).toBe(false);
+  });
+});
+
+describe('passphrase', () => {
+  it('round-trips with the same passphrase', () => {
+    const encrypted = encrypt('secret', 'correct horse');
+
+    expect(isPassphraseProtected(encrypted)).toBe(true);
+    expect(decrypt(encrypted, 'correct horse')).toBe('secret');
+  });
+
+  it('requires the passphrase to decrypt', () => {
+    const encrypted = encrypt('secret', 'correct horse');
+
+    expect(() => decrypt(encrypted)).toThrow('Passphrase required');
+    expect(() => decrypt(encrypted, 'wrong')).toThrow();
+    expect(canDecrypt(encrypted, 'wrong')).toBe(false);
+  });
+
+  it('ignores a passphrase for machine-keyed data', () => {
+    expect(decrypt(encrypt('secret'), 'unused')).toBe('secret');
+  });
+});
+
 describe('canDecrypt', () => {
   it('returns true for valid encrypted data', () => {
     const encrypted = encrypt('test');
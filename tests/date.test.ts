@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import {
   getWhoopDay,
   formatDate,
@@ -6,7 +6,25 @@ import {
   getDateRange,
   formatDuration,
   parseDateOrDefault,
+  addDays,
+  resolveDate,
+  resolveDateWindow,
+  getWindowRange,
+  countDays,
+  getRecordDay,
+  getRecordHour,
+  getRecordMinutes,
+  getTimeZone,
+  getTimeZoneOffset,
+  parseTimezoneOffset,
+  setTimeZone,
+  setDayCutoffHour,
+  getDayCutoffHour,
+  zonedTimeToUtc,
+  parseInterval,
+  parseDeadline,
 } from '../src/utils/date.js';
+import { WhoopError } from '../src/utils/errors.js';
 
 describe('formatDate', () => {
   it('formats date as YYYY-MM-DD', () => {
@@ -58,12 +76,51 @@ describe('validateISODate', () => {
     expect(validateISODate('2026-02-30')).toBe(false); // Invalid day
   });
 
+  it('accepts valid dates west of UTC', () => {
+    const originalTZ = process.env['TZ'];
+    process.env['TZ'] = 'America/New_York';
+
+    try {
+      expect(new Date('2026-03-01').getDate()).toBe(28); // local time is the day before
+      expect(validateISODate('2026-03-01')).toBe(true);
+      expect(validateISODate('2026-02-29')).toBe(false);
+    } finally {
+      if (originalTZ === undefined) {
+        delete process.env['TZ'];
+      } else {
+        process.env['TZ'] = originalTZ;
+      }
+    }
+  });
+
   it('rejects non-date strings', () => {
     expect(validateISODate('not-a-date')).toBe(false);
     expect(validateISODate('')).toBe(false);
   });
 });
 
+describe('setDayCutoffHour', () => {
+  afterEach(() => {
+    setDayCutoffHour(undefined);
+  });
+
+  it('moves the WHOOP day boundary', () => {
+    setDayCutoffHour(6);
+
+    expect(getDayCutoffHour()).toBe(6);
+    expect(getWhoopDay(new Date('2026-01-12T05:00:00'))).toBe('2026-01-11');
+    expect(new Date(getDateRange('2026-01-12').start).getHours()).toBe(6);
+  });
+
+  it('restores 4am and rejects invalid hours', () => {
+    setDayCutoffHour(0);
+    setDayCutoffHour(undefined);
+
+    expect(getDayCutoffHour()).toBe(4);
+    expect(() => setDayCutoffHour(24)).toThrow('Invalid cutoff hour');
+  });
+});
+
 describe('getDateRange', () => {
   it('returns start at 4am and end at 4am next day', () => {
     const { start, end } = getDateRange('2026-01-12');
@@ -96,6 +153,40 @@ describe('formatDuration', () => {
   });
 });
 
+describe('parseInterval', () => {
+  it('parses seconds, minutes and hours', () => {
+    expect(parseInterval('30s')).toBe(30000);
+    expect(parseInterval('5m')).toBe(300000);
+    expect(parseInterval('1.5h')).toBe(5400000);
+  });
+
+  it('requires a unit and a positive amount', () => {
+    expect(() => parseInterval('5')).toThrow(/Invalid interval: 5/);
+    expect(() => parseInterval('0m')).toThrow(WhoopError);
+  });
+});
+
+describe('parseDeadline', () => {
+  const now = new Date('2026-01-12T12:00:00.000Z'); // 07:00 in New York
+
+  it('resolves HH:MM today in the time zone, even once passed', () => {
+    expect(parseDeadline('11:00', now, 'America/New_York').toISOString()).toBe(
+      '2026-01-12T16:00:00.000Z'
+    );
+    expect(parseDeadline('6:30', now, 'America/New_York').toISOString()).toBe(
+      '2026-01-12T11:30:00.000Z'
+    );
+  });
+
+  it('accepts ISO timestamps and rejects anything else', () => {
+    expect(parseDeadline('2026-01-13T09:00:00+01:00', now).toISOString()).toBe(
+      '2026-01-13T08:00:00.000Z'
+    );
+    expect(() => parseDeadline('25:00', now)).toThrow(/Invalid deadline: 25:00/);
+    expect(() => parseDeadline('tomorrow', now)).toThrow(WhoopError);
+  });
+});
+
 describe('parseDateOrDefault', () => {
   it('returns provided date if valid', () => {
     expect(parseDateOrDefault('2026-01-10')).toBe('2026-01-10');
@@ -110,3 +201,227 @@ describe('parseDateOrDefault', () => {
     expect(() => parseDateOrDefault('invalid')).toThrow('Invalid date format');
   });
 });
+
+describe('addDays', () => {
+  it('adds and subtracts days across month boundaries', () => {
+    expect(addDays('2026-01-31', 1)).toBe('2026-02-01');
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+    expect(addDays('2026-01-12', 0)).toBe('2026-01-12');
+  });
+});
+
+describe('resolveDate', () => {
+  const now = new Date('2026-01-12T10:00:00'); // 10am local
+
+  it('returns ISO dates unchanged', () => {
+    expect(resolveDate('2026-01-05', now)).toBe('2026-01-05');
+  });
+
+  it('resolves relative keywords from the WHOOP day', () => {
+    expect(resolveDate('today', now)).toBe('2026-01-12');
+    expect(resolveDate('yesterday', now)).toBe('2026-01-11');
+  });
+
+  it('rejects keywords that cover several days', () => {
+    expect(() => resolveDate('last-week', now)).toThrow('covers several days');
+    expect(() => resolveDate('last-month', now)).toThrow('covers several days');
+  });
+
+  it('resolves keywords before the 4am cutoff to the previous day', () => {
+    expect(resolveDate('today', new Date('2026-01-12T02:00:00'))).toBe('2026-01-11');
+  });
+
+  it('throws on invalid input', () => {
+    expect(() => resolveDate('tomorrow', now)).toThrow('Invalid date format');
+  });
+});
+
+describe('resolveDateWindow', () => {
+  const now = new Date('2026-01-12T10:00:00');
+
+  it('defaults to the current WHOOP day', () => {
+    expect(resolveDateWindow({}, now)).toEqual({ from: '2026-01-12', to: '2026-01-12' });
+  });
+
+  it('uses --date as a single-day window', () => {
+    expect(resolveDateWindow({ date: 'yesterday' }, now)).toEqual({
+      from: '2026-01-11',
+      to: '2026-01-11',
+    });
+  });
+
+  it('expands last-week and last-month to the days ending today', () => {
+    expect(resolveDateWindow({ date: 'last-week' }, now)).toEqual({
+      from: '2026-01-06',
+      to: '2026-01-12',
+    });
+    expect(resolveDateWindow({ date: 'last-month' }, now)).toEqual({
+      from: '2025-12-14',
+      to: '2026-01-12',
+    });
+  });
+
+  it('takes the last day of a keyword window for --to', () => {
+    expect(resolveDateWindow({ to: 'last-week', days: 2 }, now)).toEqual({
+      from: '2026-01-11',
+      to: '2026-01-12',
+    });
+  });
+
+  it('counts --days back from today', () => {
+    expect(resolveDateWindow({ days: 30 }, now)).toEqual({ from: '2025-12-14', to: '2026-01-12' });
+  });
+
+  it('counts --days forward from --from', () => {
+    expect(resolveDateWindow({ from: '2026-01-01', days: 7 }, now)).toEqual({
+      from: '2026-01-01',
+      to: '2026-01-07',
+    });
+  });
+
+  it('counts --days back from --to', () => {
+    expect(resolveDateWindow({ to: '2026-01-07', days: 7 }, now)).toEqual({
+      from: '2026-01-01',
+      to: '2026-01-07',
+    });
+  });
+
+  it('defaults --to to today when only --from is given', () => {
+    expect(resolveDateWindow({ from: 'last-week' }, now)).toEqual({
+      from: '2026-01-06',
+      to: '2026-01-12',
+    });
+  });
+
+  it('rejects --date combined with range options', () => {
+    expect(() => resolveDateWindow({ date: '2026-01-01', days: 3 }, now)).toThrow(
+      '--date cannot be combined'
+    );
+  });
+
+  it('rejects --from, --to and --days together', () => {
+    expect(() => resolveDateWindow({ from: '2026-01-01', to: '2026-01-05', days: 3 }, now)).toThrow(
+      'at most two'
+    );
+  });
+
+  it('rejects non-positive --days', () => {
+    expect(() => resolveDateWindow({ days: 0 }, now)).toThrow('positive integer');
+    expect(() => resolveDateWindow({ days: NaN }, now)).toThrow('positive integer');
+  });
+
+  it('rejects --from after --to', () => {
+    expect(() => resolveDateWindow({ from: '2026-01-10', to: '2026-01-01' }, now)).toThrow(
+      'Invalid range'
+    );
+  });
+});
+
+describe('getWindowRange', () => {
+  it('spans 4am on the first day to 4am after the last day', () => {
+    const { start, end } = getWindowRange({ from: '2026-01-10', to: '2026-01-12' });
+    expect(start).toBe(getDateRange('2026-01-10').start);
+    expect(end).toBe(getDateRange('2026-01-12').end);
+  });
+});
+
+describe('countDays', () => {
+  it('counts days inclusively', () => {
+    expect(countDays({ from: '2026-01-12', to: '2026-01-12' })).toBe(1);
+    expect(countDays({ from: '2025-12-14', to: '2026-01-12' })).toBe(30);
+  });
+});
+
+describe('time zones', () => {
+  afterEach(() => {
+    setTimeZone(undefined);
+  });
+
+  it('computes the WHOOP day in a given zone', () => {
+    const now = new Date('2026-01-12T08:00:00Z');
+
+    expect(getWhoopDay(now, 'America/Los_Angeles')).toBe('2026-01-11'); // midnight
+    expect(getWhoopDay(now, 'Asia/Tokyo')).toBe('2026-01-12'); // 5pm
+  });
+
+  it('uses the configured zone by default', () => {
+    setTimeZone('America/Los_Angeles');
+
+    expect(getTimeZone()).toBe('America/Los_Angeles');
+    expect(getWhoopDay(new Date('2026-01-12T08:00:00Z'))).toBe('2026-01-11');
+    expect(getDateRange('2026-01-12')).toEqual({
+      start: '2026-01-12T12:00:00.000Z',
+      end: '2026-01-13T12:00:00.000Z',
+    });
+  });
+
+  it('rejects unknown zones', () => {
+    expect(() => setTimeZone('Mars/Olympus_Mons')).toThrow('Invalid time zone');
+  });
+
+  it('reports offsets including DST', () => {
+    expect(getTimeZoneOffset(new Date('2026-01-12T12:00:00Z'), 'America/New_York')).toBe(-300);
+    expect(getTimeZoneOffset(new Date('2026-07-12T12:00:00Z'), 'America/New_York')).toBe(-240);
+    expect(getTimeZoneOffset(new Date('2026-01-12T12:00:00Z'), 'Asia/Kolkata')).toBe(330);
+  });
+
+  it('converts wall-clock times to UTC', () => {
+    expect(zonedTimeToUtc('2026-01-12', 4, 'America/New_York').toISOString()).toBe(
+      '2026-01-12T09:00:00.000Z'
+    );
+    expect(zonedTimeToUtc('2026-07-12', 4, 'America/New_York').toISOString()).toBe(
+      '2026-07-12T08:00:00.000Z'
+    );
+  });
+
+  it('shortens and lengthens WHOOP days across DST changes', () => {
+    const hours = (range: { start: string; end: string }): number =>
+      (Date.parse(range.end) - Date.parse(range.start)) / 3600000;
+
+    // Clocks spring forward on 2026-03-08 and fall back on 2026-11-01
+    expect(hours(getDateRange('2026-03-07', 'America/New_York'))).toBe(23);
+    expect(hours(getDateRange('2026-03-08', 'America/New_York'))).toBe(24);
+    expect(hours(getDateRange('2026-10-31', 'America/New_York'))).toBe(25);
+  });
+
+  it('keeps addDays on the calendar across DST changes', () => {
+    setTimeZone('America/New_York');
+
+    expect(addDays('2026-03-07', 1)).toBe('2026-03-08');
+    expect(addDays('2026-11-01', -1)).toBe('2026-10-31');
+  });
+});
+
+describe('parseTimezoneOffset', () => {
+  it('parses signed offsets', () => {
+    expect(parseTimezoneOffset('-05:00')).toBe(-300);
+    expect(parseTimezoneOffset('+05:30')).toBe(330);
+    expect(parseTimezoneOffset('+0100')).toBe(60);
+    expect(parseTimezoneOffset('Z')).toBe(0);
+  });
+
+  it('returns undefined for anything else', () => {
+    expect(parseTimezoneOffset('EST')).toBeUndefined();
+  });
+});
+
+describe('getRecordDay', () => {
+  afterEach(() => {
+    setTimeZone(undefined);
+  });
+
+  it("uses the record's own timezone_offset", () => {
+    // 2am in New York, 4pm in Tokyo
+    expect(getRecordDay('2026-01-12T07:00:00.000Z', '-05:00')).toBe('2026-01-11');
+    expect(getRecordDay('2026-01-12T07:00:00.000Z', '+09:00')).toBe('2026-01-12');
+    expect(getRecordHour('2026-01-12T07:00:00.000Z', '+09:00')).toBe(16);
+    expect(getRecordMinutes('2026-01-12T07:20:30.000Z', '+05:30')).toBe(770.5);
+  });
+
+  it('falls back to the configured zone without an offset', () => {
+    setTimeZone('Asia/Tokyo');
+
+    expect(getRecordDay('2026-01-11T18:00:00.000Z')).toBe('2026-01-11'); // 3am
+    expect(getRecordHour('2026-01-11T18:00:00.000Z')).toBe(3);
+  });
+});
@@ -3,8 +3,10 @@ import {
   WhoopError,
   AuthError,
   RateLimitError,
+  TimeoutError,
   ExitCode,
   isWhoopError,
+  toErrorReport,
 } from '../src/utils/errors.js';
 
 describe('WhoopError', () => {
@@ -49,6 +51,55 @@ describe('RateLimitError', () => {
   });
 });
 
+describe('TimeoutError', () => {
+  it('has its own exit code and is not retried', () => {
+    const error = new TimeoutError('Request timed out after 100ms', 100);
+    expect(error.exitCode).toBe(ExitCode.TIMEOUT);
+    expect(error.timeoutMs).toBe(100);
+    expect(error.name).toBe('TimeoutError');
+    expect(error).toBeInstanceOf(WhoopError);
+  });
+});
+
+describe('toErrorReport', () => {
+  it('describes a WhoopError with its code and default hint', () => {
+    expect(toErrorReport(new WhoopError('Not found', ExitCode.NOT_FOUND, 404))).toEqual({
+      error: 'Not found',
+      code: 'NOT_FOUND',
+      exit_code: 8,
+      http_status: 404,
+      retry_after: null,
+      hint: 'check the ID or date',
+    });
+  });
+
+  it('prefers the hint given with the error', () => {
+    const report = toErrorReport(new AuthError('Not authenticated', 'run: whoop auth login'));
+    expect(report).toMatchObject({ code: 'AUTH_ERROR', exit_code: 2 });
+    expect(report.hint).toBe('run: whoop auth login');
+  });
+
+  it('includes retry-after for rate limits', () => {
+    expect(toErrorReport(new RateLimitError('Too many requests', 30))).toMatchObject({
+      code: 'RATE_LIMIT',
+      http_status: 429,
+      retry_after: 30,
+      hint: 'wait 30s, then retry',
+    });
+  });
+
+  it('falls back to a general error for anything else', () => {
+    expect(toErrorReport(new Error('boom'))).toEqual({
+      error: 'boom',
+      code: 'GENERAL_ERROR',
+      exit_code: 1,
+      http_status: null,
+      retry_after: null,
+      hint: null,
+    });
+  });
+});
+
 describe('isWhoopError', () => {
   it('returns true for WhoopError', () => {
     expect(isWhoopError(new WhoopError('test'))).toBe(true);
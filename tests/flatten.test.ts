@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COLUMNS,
+  flattenRecord,
+  listRecords,
+  formatDelimited,
+  formatNdjson,
+  formatNdjsonRecord,
+} from '../src/utils/flatten.js';
+import type { CombinedOutput } from '../src/types/whoop.js';
+
+const sleepRecord = {
+  id: 456,
+  start: '2026-01-11T22:00:00Z',
+  nap: false,
+  score: {
+    stage_summary: { total_rem_sleep_time_milli: 5400000, sleep_cycle_count: 4 },
+    respiratory_rate: 14.2,
+  },
+};
+
+const workoutRecord = {
+  id: 789,
+  sport_id: 1,
+  score: { strain: 12.5, zone_duration: { zone_two_milli: 600000 } },
+};
+
+describe('flattenRecord', () => {
+  it('maps nested fields to dotted columns', () => {
+    const row = flattenRecord('sleep', sleepRecord);
+
+    expect(row['score.stage_summary.total_rem_sleep_time_milli']).toBe(5400000);
+    expect(row['score.respiratory_rate']).toBe(14.2);
+    expect(row['nap']).toBe(false);
+  });
+
+  it('fills missing fields with null', () => {
+    const row = flattenRecord('sleep', sleepRecord);
+
+    expect(row['score.sleep_needed.baseline_milli']).toBeNull();
+    expect(row['end']).toBeNull();
+  });
+
+  it('always returns the same columns for a type', () => {
+    expect(Object.keys(flattenRecord('workout', workoutRecord))).toEqual(COLUMNS.workout);
+    expect(Object.keys(flattenRecord('workout', {}))).toEqual(COLUMNS.workout);
+  });
+
+  it('flattens workout zone durations', () => {
+    const row = flattenRecord('workout', workoutRecord);
+    expect(row['score.zone_duration.zone_two_milli']).toBe(600000);
+  });
+});
+
+describe('listRecords', () => {
+  it('lists single objects and arrays in type order', () => {
+    const data = {
+      date: '2026-01-12',
+      fetched_at: '2026-01-12T10:00:00Z',
+      workout: [workoutRecord],
+      profile: { user_id: 1, email: 'a@b.c', first_name: 'A', last_name: 'B' },
+    } as unknown as CombinedOutput;
+
+    expect(listRecords(data).map((r) => r.type)).toEqual(['profile', 'workout']);
+  });
+});
+
+describe('formatDelimited', () => {
+  const data = {
+    date: '2026-01-12',
+    fetched_at: '2026-01-12T10:00:00Z',
+    sleep: [sleepRecord],
+  } as unknown as CombinedOutput;
+
+  it('writes a header and one row per record', () => {
+    const lines = formatDelimited(data, ',').split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toBe(['type', ...COLUMNS.sleep].join(','));
+    expect(lines[1]?.startsWith('sleep,456,')).toBe(true);
+  });
+
+  it('writes only the header when there are no records', () => {
+    const empty = { ...data, sleep: [] } as CombinedOutput;
+    expect(formatDelimited(empty, ',').split('\n')).toHaveLength(1);
+  });
+
+  it('quotes CSV cells containing commas and quotes', () => {
+    const profile = {
+      date: '2026-01-12',
+      fetched_at: '2026-01-12T10:00:00Z',
+      profile: { user_id: 1, email: 'a@b.c', first_name: 'Jo, "JJ"', last_name: 'B' },
+    } as CombinedOutput;
+
+    expect(formatDelimited(profile, ',').split('\n')[1]).toBe('profile,1,a@b.c,"Jo, ""JJ""",B');
+  });
+
+  it('replaces tabs in TSV cells', () => {
+    const profile = {
+      date: '2026-01-12',
+      fetched_at: '2026-01-12T10:00:00Z',
+      profile: { user_id: 1, email: 'a@b.c', first_name: 'Jo\tJo', last_name: 'B' },
+    } as CombinedOutput;
+
+    expect(formatDelimited(profile, '\t').split('\n')[1]).toBe('profile\t1\ta@b.c\tJo Jo\tB');
+  });
+
+  it('adds a profile_name column when the profile is known', () => {
+    const lines = formatDelimited({ ...data, profile_name: 'alice' }, ',').split('\n');
+
+    expect(lines[0]?.startsWith('type,profile_name,id,')).toBe(true);
+    expect(lines[1]?.startsWith('sleep,alice,456,')).toBe(true);
+  });
+
+  it('unions columns across types', () => {
+    const combined = { ...data, workout: [workoutRecord] } as unknown as CombinedOutput;
+    const header = formatDelimited(combined, ',').split('\n')[0]?.split(',') ?? [];
+
+    expect(header).toContain('score.respiratory_rate');
+    expect(header).toContain('score.strain');
+    expect(header.filter((column) => column === 'id')).toHaveLength(1);
+  });
+});
+
+describe('formatNdjson', () => {
+  it('writes one JSON record per line with its type', () => {
+    const data = {
+      date: '2026-01-12',
+      fetched_at: '2026-01-12T10:00:00Z',
+      sleep: [sleepRecord, { ...sleepRecord, id: 457 }],
+    } as unknown as CombinedOutput;
+
+    const lines = formatNdjson(data).split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1] ?? '')).toMatchObject({ type: 'sleep', id: 457 });
+  });
+
+  it('formats a single record', () => {
+    expect(formatNdjsonRecord('workout', { id: 1 })).toBe('{"type":"workout","id":1}');
+  });
+
+  it('tags records with the profile they came from', () => {
+    expect(formatNdjsonRecord('workout', { id: 1 }, 'alice')).toBe(
+      '{"type":"workout","profile_name":"alice","id":1}'
+    );
+  });
+});
@@ -1,26 +1,34 @@
-import { describe, it, expect } from 'vitest';
-import { formatPretty, formatSummary } from '../src/utils/format.js';
-import type { CombinedOutput, WhoopRecovery, WhoopSleep, WhoopCycle } from '../src/types/whoop.js';
+import { describe, it, expect, afterEach } from 'vitest';
+import { formatPretty, formatSummary, formatOutput, setUnits } from '../src/utils/format.js';
+import type {
+  CombinedOutput,
+  RecoveryScore,
+  WhoopRecovery,
+  WhoopSleep,
+  WhoopCycle,
+} from '../src/types/whoop.js';
+
+const mockRecoveryScore: RecoveryScore = {
+  user_calibrating: false,
+  recovery_score: 72,
+  resting_heart_rate: 52,
+  hrv_rmssd_milli: 45.2,
+  spo2_percentage: 96.5,
+  skin_temp_celsius: 33.1,
+};
 
 const mockRecovery: WhoopRecovery = {
   cycle_id: 123,
-  sleep_id: 456,
+  sleep_id: '456',
   user_id: 789,
   created_at: '2026-01-12T10:00:00Z',
   updated_at: '2026-01-12T10:00:00Z',
   score_state: 'SCORED',
-  score: {
-    user_calibrating: false,
-    recovery_score: 72,
-    resting_heart_rate: 52,
-    hrv_rmssd_milli: 45.2,
-    spo2_percentage: 96.5,
-    skin_temp_celsius: 33.1,
-  },
+  score: mockRecoveryScore,
 };
 
 const mockSleep: WhoopSleep = {
-  id: 456,
+  id: '456',
   user_id: 789,
   created_at: '2026-01-12T06:00:00Z',
   updated_at: '2026-01-12T06:00:00Z',
@@ -148,7 +156,7 @@ describe('formatPretty', () => {
   it('shows yellow zone for mid recovery', () => {
     const midRecovery = {
       ...mockRecovery,
-      score: { ...mockRecovery.score, recovery_score: 50 },
+      score: { ...mockRecoveryScore, recovery_score: 50 },
     };
     const data: CombinedOutput = {
       date: '2026-01-12',
@@ -163,7 +171,7 @@ describe('formatPretty', () => {
   it('shows red zone for low recovery', () => {
     const lowRecovery = {
       ...mockRecovery,
-      score: { ...mockRecovery.score, recovery_score: 25 },
+      score: { ...mockRecoveryScore, recovery_score: 25 },
     };
     const data: CombinedOutput = {
       date: '2026-01-12',
@@ -196,4 +204,79 @@ describe('formatPretty', () => {
     const result = formatPretty(data);
     expect(result).toContain('Sleep: No data');
   });
+
+  it('shows n/a for fields missing from drifted records', () => {
+    const data = {
+      date: '2026-01-12',
+      fetched_at: '2026-01-12T15:00:00Z',
+      recovery: [{ score_state: 'SCORED', score: { recovery_score: 70 } }],
+      sleep: [{ score_state: 'SCORED', score: { sleep_performance_percentage: 85 } }],
+      workout: [{ sport_name: 'running', start: 'soon', score_state: 'SCORED', score: {} }],
+      cycle: [{ score_state: 'SCORED', score: {} }],
+    } as unknown as CombinedOutput;
+
+    const pretty = formatPretty(data);
+    expect(pretty).toContain('Recovery: 70%');
+    expect(pretty).toContain('HRV: n/a | RHR: n/a');
+    expect(pretty).toContain('Sleep: n/a (n/a efficiency)');
+    expect(pretty).toContain('Performance: 85%');
+    expect(pretty).toContain('Light: n/a');
+    expect(pretty).toContain('Strain: n/a | n/a | n/a');
+    expect(pretty).toContain('Daily Strain: n/a');
+
+    expect(formatSummary(data)).toContain('HRV: n/a');
+  });
+});
+
+describe('units', () => {
+  afterEach(() => {
+    setUnits(undefined);
+  });
+
+  const data: CombinedOutput = {
+    date: '2026-01-12',
+    fetched_at: '2026-01-12T15:00:00Z',
+    recovery: [mockRecovery],
+    body: { height_meter: 1.78, weight_kilogram: 75, max_heart_rate: 185 },
+  };
+
+  it('shows metric units by default', () => {
+    const result = formatPretty(data);
+
+    expect(result).toContain('Skin Temp: 33.1°C');
+    expect(result).toContain('Height: 1.78 m | Weight: 75.0 kg | Max HR: 185bpm');
+  });
+
+  it('converts to imperial units', () => {
+    setUnits('imperial');
+    const result = formatPretty(data);
+
+    expect(result).toContain('Skin Temp: 91.6°F');
+    expect(result).toContain('Height: 5\'10" | Weight: 165 lb');
+  });
+
+  it('rejects unknown units', () => {
+    expect(() => setUnits('furlongs')).toThrow('Invalid units');
+  });
+});
+
+describe('formatOutput', () => {
+  const data: CombinedOutput = {
+    date: '2026-01-12',
+    fetched_at: '2026-01-12T15:30:00Z',
+    recovery: [mockRecovery],
+  };
+
+  it('formats JSON by default', () => {
+    expect(JSON.parse(formatOutput(data, 'json'))).toEqual(data);
+  });
+
+  it('formats pretty output', () => {
+    expect(formatOutput(data, 'pretty')).toBe(formatPretty(data));
+  });
+
+  it('formats CSV and NDJSON', () => {
+    expect(formatOutput(data, 'csv').split('\n')[1]).toMatch(/^recovery,123,456,/);
+    expect(JSON.parse(formatOutput(data, 'ndjson'))).toMatchObject({ type: 'recovery' });
+  });
 });
@@ -18,6 +18,35 @@ function createMockResponse(url: string): string {
   const start = urlObj.searchParams.get('start');
   const date = start ? start.split('T')[0] : '2026-01-01';
 
+  // Single-record endpoints
+  const cycleLink = urlObj.pathname.match(/\/v2\/cycle\/(\d+)\/(recovery|sleep)$/);
+  if (cycleLink) {
+    const cycleId = Number(cycleLink[1]);
+    return cycleLink[2] === 'recovery'
+      ? JSON.stringify({
+          cycle_id: cycleId,
+          sleep_id: 12345,
+          created_at: '2026-01-06T08:00:00.000Z',
+          score: { recovery_score: 72 },
+        })
+      : JSON.stringify({
+          id: 12345,
+          start: '2026-01-06T00:00:00.000Z',
+          end: '2026-01-06T08:00:00.000Z',
+          score: { sleep_performance_percentage: 85 },
+        });
+  }
+
+  const record = urlObj.pathname.match(/\/v2\/(activity\/sleep|activity\/workout|cycle)\/([^/]+)$/);
+  if (record) {
+    return JSON.stringify({
+      id: record[2],
+      start: '2026-01-06T10:00:00.000Z',
+      end: '2026-01-06T11:00:00.000Z',
+      score: {},
+    });
+  }
+
   if (url.includes('/v2/user/profile/basic')) {
     return JSON.stringify({
       user_id: 123456,
@@ -41,7 +70,9 @@ function createMockResponse(url: string): string {
     });
   } else if (url.includes('/v2/recovery')) {
     return JSON.stringify({
-      records: [{ cycle_id: 67890, score: { recovery_score: 72 } }],
+      records: [
+        { cycle_id: 67890, created_at: `${date}T08:00:00.000Z`, score: { recovery_score: 72 } },
+      ],
       next_token: null,
     });
   } else if (url.includes('/v2/cycle')) {
@@ -76,6 +107,13 @@ export async function setup() {
   // Start mock server
   await new Promise<void>((resolve) => {
     mockServer = createServer((req, res) => {
+      // Revoking access returns no content
+      if (req.method === 'DELETE' && req.url?.endsWith('/v2/user/access')) {
+        res.statusCode = 204;
+        res.end();
+        return;
+      }
+
       res.setHeader('Content-Type', 'application/json');
       res.end(createMockResponse(req.url ?? '/'));
     });
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import { generatePkce, buildAuthUrl, parseAuthorizationResponse } from '../src/auth/oauth.js';
+import { startCallbackServer, getCallbackUrl } from '../src/auth/server.js';
+
+describe('generatePkce', () => {
+  it('derives the challenge from the verifier with S256', () => {
+    const { code_verifier, code_challenge } = generatePkce();
+
+    expect(code_verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(code_challenge).toBe(createHash('sha256').update(code_verifier).digest('base64url'));
+  });
+
+  it('generates a new verifier each time', () => {
+    expect(generatePkce().code_verifier).not.toBe(generatePkce().code_verifier);
+  });
+});
+
+describe('buildAuthUrl', () => {
+  it('includes state and the PKCE challenge', () => {
+    const url = new URL(buildAuthUrl('client', 'http://localhost:3000/callback', 'abc', 'xyz'));
+
+    expect(url.searchParams.get('state')).toBe('abc');
+    expect(url.searchParams.get('code_challenge')).toBe('xyz');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('redirect_uri')).toBe('http://localhost:3000/callback');
+  });
+});
+
+describe('parseAuthorizationResponse', () => {
+  it('extracts the code from a redirect URL', () => {
+    const input = 'http://localhost:3000/callback?code=the-code&scope=read&state=abc';
+
+    expect(parseAuthorizationResponse(input, 'abc')).toBe('the-code');
+  });
+
+  it('accepts a bare query string', () => {
+    expect(parseAuthorizationResponse('code=the-code&state=abc', 'abc')).toBe('the-code');
+  });
+
+  it('accepts a bare code', () => {
+    expect(parseAuthorizationResponse('  the-code\n', 'abc')).toBe('the-code');
+  });
+
+  it('rejects a state mismatch', () => {
+    const input = 'http://localhost:3000/callback?code=the-code&state=other';
+
+    expect(() => parseAuthorizationResponse(input, 'abc')).toThrow('State mismatch');
+  });
+
+  it('rejects OAuth errors and empty input', () => {
+    expect(() =>
+      parseAuthorizationResponse('http://localhost/callback?error=access_denied', 'abc')
+    ).toThrow('OAuth error: access_denied');
+    expect(() => parseAuthorizationResponse('', 'abc')).toThrow('No authorization code');
+  });
+});
+
+describe('startCallbackServer', () => {
+  it('listens on a free port and resolves the callback', async () => {
+    const server = await startCallbackServer('abc', 0);
+
+    expect(server.port).toBeGreaterThan(0);
+
+    const callbackUrl = new URL(getCallbackUrl(server.port));
+    callbackUrl.searchParams.set('code', 'the-code');
+    callbackUrl.searchParams.set('state', 'abc');
+
+    const response = await fetch(callbackUrl);
+    expect(response.status).toBe(200);
+
+    await expect(server.result).resolves.toEqual({ code: 'the-code', state: 'abc' });
+  });
+
+  it('rejects a callback with the wrong state', async () => {
+    const server = await startCallbackServer('abc', 0);
+    const result = server.result.catch((error: Error) => error.message);
+
+    const response = await fetch(`http://localhost:${server.port}/callback?code=x&state=nope`);
+    expect(response.status).toBe(400);
+
+    expect(await result).toContain('State mismatch');
+  });
+
+  it('reports a port that is already in use', async () => {
+    const server = await startCallbackServer('abc', 0);
+
+    await expect(startCallbackServer('abc', server.port)).rejects.toThrow('already in use');
+
+    server.close();
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, afterEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Point the token directory at a scratch dir before the modules read it
+const root = mkdtempSync(join(tmpdir(), 'whoop-profiles-'));
+const originalTokenPath = process.env['WHOOP_TOKEN_PATH'];
+process.env['WHOOP_TOKEN_PATH'] = root;
+
+const { getActiveProfile, setActiveProfile, getProfileDir, getLoginCommand } =
+  await import('../src/auth/profiles.js');
+const {
+  saveTokens,
+  loadTokens,
+  hasTokens,
+  listProfiles,
+  useProfile,
+  getTokenDir,
+  setPassphrase,
+  needsPassphrase,
+  createTokenBundle,
+  openTokenBundle,
+} = await import('../src/auth/tokens.js');
+
+const tokens = {
+  access_token: 'access',
+  refresh_token: 'refresh',
+  expires_at: Date.now() + 3600000,
+  token_type: 'Bearer',
+  scope: 'read:sleep offline',
+};
+
+afterEach(() => {
+  setActiveProfile(undefined);
+  setPassphrase(undefined);
+  delete process.env['WHOOP_PROFILE'];
+  delete process.env['WHOOP_PASSPHRASE'];
+});
+
+afterAll(() => {
+  if (originalTokenPath === undefined) {
+    delete process.env['WHOOP_TOKEN_PATH'];
+  } else {
+    process.env['WHOOP_TOKEN_PATH'] = originalTokenPath;
+  }
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('profiles', () => {
+  it('keeps the default profile in the token directory', () => {
+    expect(getActiveProfile()).toBe('default');
+    expect(getProfileDir()).toBe(root);
+    expect(getLoginCommand()).toBe('whoop auth login');
+  });
+
+  it('keeps named profiles in their own directory', () => {
+    setActiveProfile('alice');
+
+    expect(getProfileDir()).toBe(join(root, 'profiles', 'alice'));
+    expect(getTokenDir()).toBe(join(root, 'profiles', 'alice'));
+    expect(getLoginCommand()).toBe('whoop auth login --profile alice');
+  });
+
+  it('rejects unsafe names', () => {
+    expect(() => setActiveProfile('../etc')).toThrow('Invalid profile name');
+    expect(() => getProfileDir('a/b')).toThrow('Invalid profile name');
+  });
+
+  it('prefers --profile over WHOOP_PROFILE', () => {
+    process.env['WHOOP_PROFILE'] = 'bob';
+    expect(getActiveProfile()).toBe('bob');
+
+    setActiveProfile('alice');
+    expect(getActiveProfile()).toBe('alice');
+  });
+});
+
+describe('per-profile tokens', () => {
+  it('stores tokens separately for each profile', () => {
+    setActiveProfile('alice');
+    saveTokens({ ...tokens, access_token: 'alice-token' });
+
+    setActiveProfile('bob');
+    expect(loadTokens()).toBeNull();
+    saveTokens({ ...tokens, access_token: 'bob-token' });
+
+    setActiveProfile('alice');
+    expect(loadTokens()?.access_token).toBe('alice-token');
+    expect(existsSync(join(root, 'profiles', 'alice', 'tokens.json'))).toBe(true);
+    expect(hasTokens('default')).toBe(false);
+  });
+
+  it('lists profiles with tokens, default first', () => {
+    saveTokens(tokens);
+
+    expect(listProfiles()).toEqual(['default', 'alice', 'bob']);
+  });
+
+  it('switches the profile used without --profile', () => {
+    useProfile('bob');
+
+    expect(getActiveProfile()).toBe('bob');
+    expect(loadTokens()?.access_token).toBe('bob-token');
+
+    useProfile('default');
+    expect(getActiveProfile()).toBe('default');
+  });
+
+  it('refuses to switch to a profile without tokens', () => {
+    expect(() => useProfile('carol')).toThrow('whoop auth login --profile carol');
+  });
+});
+
+describe('passphrase-protected tokens', () => {
+  it('encrypts with WHOOP_PASSPHRASE and needs it to load', () => {
+    setActiveProfile('dave');
+    process.env['WHOOP_PASSPHRASE'] = 'hunter2';
+    saveTokens(tokens);
+
+    expect(needsPassphrase()).toBe(true);
+    expect(loadTokens()?.access_token).toBe('access');
+
+    delete process.env['WHOOP_PASSPHRASE'];
+    expect(() => loadTokens()).toThrow('protected by a passphrase');
+
+    setPassphrase('wrong');
+    expect(() => loadTokens()).toThrow('wrong passphrase');
+  });
+
+  it('saves in the current format, replacing version 1 files', () => {
+    setActiveProfile('erin');
+    saveTokens(tokens);
+
+    const file = join(root, 'profiles', 'erin', 'tokens.json');
+    const stored = JSON.parse(readFileSync(file, 'utf8')) as { version: number; salt?: string };
+
+    expect(stored.version).toBe(2);
+    expect(stored.salt).toBeDefined();
+    expect(needsPassphrase()).toBe(false);
+  });
+});
+
+describe('token bundles', () => {
+  it('round-trips tokens with the bundle passphrase', () => {
+    const bundle = createTokenBundle(tokens, 'bundle-secret');
+
+    expect(bundle.type).toBe('whoop-cli-tokens');
+    expect(bundle.scopes).toEqual(['read:sleep', 'offline']);
+    expect(JSON.stringify(bundle)).not.toContain('refresh');
+    expect(openTokenBundle(JSON.parse(JSON.stringify(bundle)), 'bundle-secret')).toEqual(tokens);
+  });
+
+  it('rejects a wrong passphrase and other files', () => {
+    const bundle = createTokenBundle(tokens, 'bundle-secret');
+
+    expect(() => openTokenBundle(bundle, 'wrong')).toThrow('wrong passphrase');
+    expect(() => openTokenBundle({ version: 2 }, 'bundle-secret')).toThrow('Not a whoop-cli');
+    expect(() => openTokenBundle({ ...bundle, version: 9 }, 'bundle-secret')).toThrow(
+      'Unsupported token bundle version'
+    );
+  });
+
+  it('saves imported tokens with the local machine key', () => {
+    setActiveProfile('frank');
+    saveTokens(openTokenBundle(createTokenBundle(tokens, 'bundle-secret'), 'bundle-secret'));
+
+    expect(needsPassphrase()).toBe(false);
+    expect(loadTokens()).toEqual(tokens);
+  });
+});
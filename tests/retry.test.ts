@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  isRetryable,
+  getRetryDelay,
+  withRetry,
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy,
+} from '../src/api/retry.js';
+import { WhoopError, AuthError, RateLimitError, ExitCode } from '../src/utils/errors.js';
+
+const fastPolicy: RetryPolicy = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 1000, jitter: 0 };
+
+describe('isRetryable', () => {
+  it('retries rate limits', () => {
+    expect(isRetryable(new RateLimitError('Too many requests', 5))).toBe(true);
+  });
+
+  it('retries 5xx responses', () => {
+    expect(isRetryable(new WhoopError('Bad gateway', ExitCode.GENERAL_ERROR, 502))).toBe(true);
+  });
+
+  it('retries network errors', () => {
+    expect(isRetryable(new TypeError('fetch failed'))).toBe(true);
+    expect(isRetryable(new WhoopError('Network error: ECONNRESET', ExitCode.NETWORK_ERROR))).toBe(
+      true
+    );
+  });
+
+  it('does not retry client errors', () => {
+    expect(isRetryable(new WhoopError('Not found', ExitCode.GENERAL_ERROR, 404))).toBe(false);
+    expect(isRetryable(new AuthError('Not authenticated'))).toBe(false);
+    expect(isRetryable(new SyntaxError('Unexpected token'))).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, jitter: 0 };
+
+  it('backs off exponentially', () => {
+    const error = new WhoopError('Server error', ExitCode.GENERAL_ERROR, 500);
+    expect(getRetryDelay(1, policy, error)).toBe(1000);
+    expect(getRetryDelay(2, policy, error)).toBe(2000);
+    expect(getRetryDelay(3, policy, error)).toBe(4000);
+  });
+
+  it('caps backoff at maxDelayMs', () => {
+    const error = new WhoopError('Server error', ExitCode.GENERAL_ERROR, 500);
+    expect(getRetryDelay(10, { ...policy, maxDelayMs: 5000 }, error)).toBe(5000);
+  });
+
+  it('applies jitter within bounds', () => {
+    const error = new TypeError('fetch failed');
+    const jittery = { ...policy, jitter: 0.5 };
+    expect(getRetryDelay(1, jittery, error, () => 0)).toBe(500);
+    expect(getRetryDelay(1, jittery, error, () => 1)).toBe(1500);
+  });
+
+  it('honors Retry-After', () => {
+    expect(getRetryDelay(1, policy, new RateLimitError('Too many requests', 7))).toBe(7000);
+  });
+
+  it('gives up when Retry-After exceeds maxDelayMs', () => {
+    const error = new RateLimitError('Too many requests', 120);
+    expect(getRetryDelay(1, { ...policy, maxDelayMs: 60_000 }, error)).toBeNull();
+  });
+});
+
+describe('withRetry', () => {
+  it('returns the first successful result', async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new WhoopError('Server error', ExitCode.GENERAL_ERROR, 503))
+      .mockResolvedValueOnce('ok');
+
+    await expect(withRetry('/v2/recovery', fn, fastPolicy)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws after maxAttempts', async () => {
+    const error = new WhoopError('Server error', ExitCode.GENERAL_ERROR, 500);
+    const fn = vi.fn().mockRejectedValue(error);
+
+    await expect(withRetry('/v2/recovery', fn, fastPolicy)).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry non-retryable errors', async () => {
+    const fn = vi.fn().mockRejectedValue(new AuthError('Not authenticated'));
+
+    await expect(withRetry('/v2/recovery', fn, fastPolicy)).rejects.toThrow(AuthError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports each retry with the attempt count', async () => {
+    const onRetry = vi.fn();
+    const fn = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(withRetry('/v2/sleep', fn, { ...fastPolicy, onRetry })).rejects.toThrow();
+
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ endpoint: '/v2/sleep', attempt: 1, maxAttempts: 3 })
+    );
+    expect(onRetry).toHaveBeenNthCalledWith(2, expect.objectContaining({ attempt: 2 }));
+  });
+
+  it('stops waiting and retrying when the signal aborts', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+    const slowPolicy = { ...fastPolicy, baseDelayMs: 60_000, maxDelayMs: 60_000 };
+
+    const pending = withRetry('/v2/sleep', fn, slowPolicy, controller.signal);
+    setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+    await expect(pending).rejects.toThrow('cancelled');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  validateRecord,
+  validatePage,
+  checkRecords,
+  checkPage,
+  formatSchemaDrift,
+} from '../src/api/schema.js';
+import { SchemaError, ExitCode } from '../src/utils/errors.js';
+
+const cycle = {
+  id: 93845,
+  user_id: 10129,
+  created_at: '2026-01-12T11:25:44.774Z',
+  updated_at: '2026-01-12T14:25:44.774Z',
+  start: '2026-01-12T04:00:00.000Z',
+  end: '2026-01-13T04:00:00.000Z',
+  timezone_offset: '-05:00',
+  score_state: 'SCORED',
+  score: { strain: 5.3, kilojoule: 8288.3, average_heart_rate: 68, max_heart_rate: 141 },
+};
+
+const sleep = {
+  id: 'ecfc6a15-4661-442f-a9a4-f160dd7afae8',
+  user_id: 10129,
+  created_at: '2026-01-12T11:25:44.774Z',
+  updated_at: '2026-01-12T14:25:44.774Z',
+  start: '2026-01-12T02:25:44.774Z',
+  end: '2026-01-12T10:25:44.774Z',
+  timezone_offset: '-05:00',
+  nap: false,
+  score_state: 'PENDING_SCORE',
+};
+
+describe('validateRecord', () => {
+  it('accepts records matching their type, including unknown extra fields', () => {
+    expect(validateRecord('cycle', { ...cycle, v2_field: true })).toEqual([]);
+    expect(
+      validateRecord('body', { height_meter: 1.8, weight_kilogram: 75, max_heart_rate: 190 })
+    ).toEqual([]);
+  });
+
+  it('allows a missing score until the record is scored', () => {
+    expect(validateRecord('sleep', sleep)).toEqual([]);
+    expect(validateRecord('sleep', { ...sleep, score_state: 'UNSCORABLE', score: null })).toEqual(
+      []
+    );
+    expect(validateRecord('sleep', { ...sleep, score_state: 'SCORED' })).toEqual([
+      { path: 'score', expected: 'object', received: 'undefined' },
+    ]);
+  });
+
+  it('allows an open cycle without an end', () => {
+    expect(validateRecord('cycle', { ...cycle, end: undefined })).toEqual([]);
+  });
+
+  it('reports the path of nested fields that changed type or went missing', () => {
+    const drifted = {
+      ...cycle,
+      score_state: 'SCORING',
+      score: { ...cycle.score, strain: '5.3', kilojoule: undefined },
+    };
+
+    expect(validateRecord('cycle', drifted)).toEqual([
+      {
+        path: 'score_state',
+        expected: 'SCORED | PENDING_SCORE | UNSCORABLE',
+        received: '"SCORING"',
+      },
+      { path: 'score.strain', expected: 'number', received: 'string' },
+      { path: 'score.kilojoule', expected: 'number', received: 'undefined' },
+    ]);
+  });
+
+  it('rejects records that are not objects', () => {
+    expect(validateRecord('profile', null)).toEqual([
+      { path: '(record)', expected: 'object', received: 'null' },
+    ]);
+  });
+});
+
+describe('validatePage', () => {
+  it('needs a records array and an optional next_token', () => {
+    expect(validatePage({ records: [], next_token: null })).toEqual([]);
+    expect(validatePage({ data: [] })).toEqual([
+      { path: 'records', expected: 'array', received: 'undefined' },
+    ]);
+  });
+});
+
+describe('checkRecords', () => {
+  const drifted = { ...cycle, score: { ...cycle.score, strain: null } };
+
+  it('reports drift with the record ID and passes the data through', () => {
+    const onDrift = vi.fn();
+
+    expect(checkRecords('cycle', '/v2/cycle', [cycle], { strict: false, onDrift })).toBe(true);
+    expect(checkRecords('cycle', '/v2/cycle', [cycle, drifted], { strict: false, onDrift })).toBe(
+      false
+    );
+
+    expect(onDrift).toHaveBeenCalledTimes(1);
+    expect(onDrift).toHaveBeenCalledWith({
+      type: 'cycle',
+      endpoint: '/v2/cycle',
+      id: 93845,
+      issues: [{ path: 'score.strain', expected: 'number', received: 'null' }],
+    });
+  });
+
+  it('throws a SchemaError when strict', () => {
+    const check = (): boolean => checkRecords('cycle', '/v2/cycle', [drifted], { strict: true });
+
+    expect(check).toThrow(SchemaError);
+    expect(check).toThrow(
+      'Unexpected API response for cycle 93845: score.strain: expected number, got null'
+    );
+
+    try {
+      check();
+    } catch (error) {
+      expect((error as SchemaError).exitCode).toBe(ExitCode.SCHEMA_ERROR);
+      expect((error as SchemaError).drift.id).toBe(93845);
+    }
+  });
+
+  it('identifies recoveries by cycle ID', () => {
+    const onDrift = vi.fn();
+
+    checkRecords('recovery', '/v2/recovery', [{ cycle_id: 5, score_state: 'PENDING_SCORE' }], {
+      strict: false,
+      onDrift,
+    });
+
+    expect(onDrift).toHaveBeenCalledWith(expect.objectContaining({ id: 5 }));
+  });
+});
+
+describe('checkPage', () => {
+  it('always fails without a records array', () => {
+    const onDrift = vi.fn();
+
+    expect(() => checkPage('sleep', '/v2/activity/sleep', {}, { strict: false, onDrift })).toThrow(
+      SchemaError
+    );
+    expect(onDrift).not.toHaveBeenCalled();
+  });
+
+  it('reports other page drift like record drift', () => {
+    const onDrift = vi.fn();
+
+    checkPage(
+      'sleep',
+      '/v2/activity/sleep',
+      { records: [], next_token: 3 },
+      { strict: false, onDrift }
+    );
+
+    expect(onDrift).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('formatSchemaDrift', () => {
+  it('names the data type, record and every offending path', () => {
+    expect(
+      formatSchemaDrift({
+        type: 'sleep',
+        endpoint: '/v2/activity/sleep',
+        id: 'abc',
+        issues: [
+          { path: 'nap', expected: 'boolean', received: 'undefined' },
+          { path: 'end', expected: 'ISO timestamp', received: 'null' },
+        ],
+      })
+    ).toBe(
+      'sleep abc: nap: expected boolean, got undefined; end: expected ISO timestamp, got null'
+    );
+  });
+});
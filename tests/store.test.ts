@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+const storeRoot = mkdtempSync(join(tmpdir(), 'whoop-store-test-'));
+
+vi.mock('../src/auth/tokens.js', () => ({
+  getTokenDir: (): string => storeRoot,
+}));
+
+import {
+  readStore,
+  writeStore,
+  mergeRecords,
+  queryStore,
+  getRecordKey,
+  getStoreDir,
+} from '../src/utils/store.js';
+import { WhoopError } from '../src/utils/errors.js';
+import type { WhoopSleep, WhoopRecovery } from '../src/types/whoop.js';
+
+function sleep(id: number, start: string, updatedAt = start): WhoopSleep {
+  return { id: String(id), start, end: start, updated_at: updatedAt } as WhoopSleep;
+}
+
+describe('store', () => {
+  beforeEach(() => {
+    rmSync(getStoreDir(), { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    rmSync(storeRoot, { recursive: true, force: true });
+  });
+
+  describe('readStore / writeStore', () => {
+    it('returns null before the first sync', () => {
+      expect(readStore('sleep')).toBeNull();
+    });
+
+    it('round-trips records', () => {
+      const records = [sleep(1, '2026-01-10T23:00:00.000Z')];
+      writeStore('sleep', records, '2026-01-12T10:00:00.000Z');
+
+      const store = readStore('sleep');
+      expect(store?.synced_at).toBe('2026-01-12T10:00:00.000Z');
+      expect(store?.records).toEqual(records);
+    });
+
+    it('replaces the file without leaving temp files behind', () => {
+      writeStore('sleep', [sleep(1, '2026-01-10T23:00:00.000Z')], '2026-01-12T10:00:00.000Z');
+      writeStore('sleep', [sleep(2, '2026-01-11T23:00:00.000Z')], '2026-01-13T10:00:00.000Z');
+
+      expect(readdirSync(getStoreDir())).toEqual(['sleep.json']);
+      expect(readStore('sleep')?.records.map((record) => record.id)).toEqual(['2']);
+    });
+  });
+
+  describe('getRecordKey', () => {
+    it('keys recoveries by cycle_id', () => {
+      expect(getRecordKey('recovery', { cycle_id: 42 } as WhoopRecovery)).toBe('42');
+    });
+
+    it('keys other records by id', () => {
+      expect(getRecordKey('sleep', sleep(7, '2026-01-10T23:00:00.000Z'))).toBe('7');
+    });
+  });
+
+  describe('mergeRecords', () => {
+    it('adds new records and sorts newest first', () => {
+      const existing = [sleep(1, '2026-01-10T23:00:00.000Z')];
+      const incoming = [sleep(2, '2026-01-11T23:00:00.000Z')];
+
+      const result = mergeRecords('sleep', existing, incoming);
+
+      expect(result.added).toBe(1);
+      expect(result.updated).toBe(0);
+      expect(result.records.map((r) => r.id)).toEqual(['2', '1']);
+    });
+
+    it('replaces records with a newer updated_at', () => {
+      const existing = [sleep(1, '2026-01-10T23:00:00.000Z', '2026-01-11T08:00:00.000Z')];
+      const incoming = [sleep(1, '2026-01-10T23:00:00.000Z', '2026-01-11T12:00:00.000Z')];
+
+      const result = mergeRecords('sleep', existing, incoming);
+
+      expect(result.updated).toBe(1);
+      expect(result.records[0]?.updated_at).toBe('2026-01-11T12:00:00.000Z');
+    });
+
+    it('keeps records that are unchanged', () => {
+      const existing = [sleep(1, '2026-01-10T23:00:00.000Z')];
+
+      const result = mergeRecords('sleep', existing, [sleep(1, '2026-01-10T23:00:00.000Z')]);
+
+      expect(result.added).toBe(0);
+      expect(result.updated).toBe(0);
+      expect(result.records).toHaveLength(1);
+    });
+  });
+
+  describe('queryStore', () => {
+    it('throws when the type was never synced', () => {
+      expect(() => queryStore('sleep')).toThrow(WhoopError);
+      expect(() => queryStore('sleep')).toThrow('Run: whoop sync');
+    });
+
+    it('filters records to the window', () => {
+      writeStore(
+        'sleep',
+        [
+          sleep(3, '2026-01-12T23:00:00.000Z'),
+          sleep(2, '2026-01-11T23:00:00.000Z'),
+          sleep(1, '2026-01-10T23:00:00.000Z'),
+        ],
+        '2026-01-13T10:00:00.000Z'
+      );
+
+      const records = queryStore('sleep', {
+        start: '2026-01-11T00:00:00.000Z',
+        end: '2026-01-12T23:00:00.000Z',
+      });
+
+      expect(records.map((r) => r.id)).toEqual(['2']);
+    });
+
+    it('filters recoveries by created_at', () => {
+      writeStore(
+        'recovery',
+        [{ cycle_id: 1, created_at: '2026-01-11T08:00:00.000Z' } as WhoopRecovery],
+        '2026-01-13T10:00:00.000Z'
+      );
+
+      expect(
+        queryStore('recovery', {
+          start: '2026-01-11T04:00:00.000Z',
+          end: '2026-01-12T04:00:00.000Z',
+        })
+      ).toHaveLength(1);
+    });
+  });
+});
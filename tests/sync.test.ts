@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+const storeRoot = mkdtempSync(join(tmpdir(), 'whoop-sync-test-'));
+
+vi.mock('../src/auth/tokens.js', () => ({
+  getTokenDir: (): string => storeRoot,
+  getValidTokens: vi.fn().mockResolvedValue({
+    access_token: 'mock_access_token',
+    refresh_token: 'mock_refresh_token',
+    expires_at: Date.now() + 3600000,
+    token_type: 'Bearer',
+    scope: 'read:sleep',
+  }),
+}));
+
+import { sync } from '../src/api/sync.js';
+import { fetchData, WhoopClient } from '../src/api/client.js';
+import { getStoreDir, readStore } from '../src/utils/store.js';
+
+function page(records: object[]): { ok: boolean; json: () => Promise<unknown> } {
+  return { ok: true, json: () => Promise.resolve({ records }) };
+}
+
+describe('sync', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch);
+    mockFetch.mockReset();
+    rmSync(getStoreDir(), { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  afterAll(() => {
+    rmSync(storeRoot, { recursive: true, force: true });
+  });
+
+  it('fetches everything on the first sync', async () => {
+    mockFetch.mockResolvedValueOnce(
+      page([{ id: 1, start: '2026-01-10T23:00:00.000Z', updated_at: '2026-01-11T08:00:00.000Z' }])
+    );
+
+    const result = await sync({ types: ['sleep'] });
+
+    const url = new URL(mockFetch.mock.calls[0]?.[0] as string);
+    expect(url.searchParams.get('start')).toBeNull();
+    expect(result.types.sleep).toMatchObject({ fetched: 1, added: 1, updated: 0, total: 1 });
+    expect(readStore('sleep')?.records).toHaveLength(1);
+  });
+
+  it('syncs into the dataDir of the given client', async () => {
+    const dataDir = mkdtempSync(join(tmpdir(), 'whoop-sync-client-'));
+    const ownFetch = vi
+      .fn()
+      .mockResolvedValue(page([{ id: 1, start: '2026-01-10T23:00:00.000Z' }]));
+    const client = new WhoopClient({
+      tokenProvider: (): string => 'token',
+      fetch: ownFetch,
+      dataDir,
+    });
+
+    try {
+      await sync({ types: ['sleep'], client });
+
+      expect(ownFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(readStore('sleep', getStoreDir(dataDir))?.records).toHaveLength(1);
+      expect(readStore('sleep')).toBeNull();
+    } finally {
+      rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+
+  it('only fetches the lookback window on later syncs', async () => {
+    mockFetch.mockResolvedValueOnce(
+      page([{ id: 1, start: '2026-01-10T23:00:00.000Z', updated_at: '2026-01-11T08:00:00.000Z' }])
+    );
+    await sync({ types: ['sleep'] });
+
+    mockFetch.mockResolvedValueOnce(
+      page([
+        { id: 2, start: '2026-01-11T23:00:00.000Z', updated_at: '2026-01-12T08:00:00.000Z' },
+        { id: 1, start: '2026-01-10T23:00:00.000Z', updated_at: '2026-01-11T20:00:00.000Z' },
+      ])
+    );
+    const result = await sync({ types: ['sleep'], lookbackDays: 2 });
+
+    const url = new URL(mockFetch.mock.calls[1]?.[0] as string);
+    expect(url.searchParams.get('start')).toBe('2026-01-08T23:00:00.000Z');
+    expect(result.types.sleep).toMatchObject({ added: 1, updated: 1, total: 2 });
+  });
+
+  it('re-fetches everything with full', async () => {
+    mockFetch.mockResolvedValue(
+      page([{ id: 1, start: '2026-01-10T23:00:00.000Z', updated_at: '2026-01-11T08:00:00.000Z' }])
+    );
+    await sync({ types: ['sleep'] });
+    const result = await sync({ types: ['sleep'], full: true });
+
+    const url = new URL(mockFetch.mock.calls[1]?.[0] as string);
+    expect(url.searchParams.get('start')).toBeNull();
+    expect(result.full).toBe(true);
+    expect(result.types.sleep?.total).toBe(1);
+  });
+
+  it('serves synced data to offline fetches without the API', async () => {
+    mockFetch.mockResolvedValueOnce(
+      page([{ id: 1, start: '2026-01-10T23:00:00.000Z', updated_at: '2026-01-11T08:00:00.000Z' }])
+    );
+    await sync({ types: ['sleep'] });
+    mockFetch.mockReset();
+
+    const result = await fetchData(
+      ['sleep'],
+      { from: '2026-01-01', to: '2026-01-31' },
+      { offline: true }
+    );
+
+    expect(result.sleep).toHaveLength(1);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
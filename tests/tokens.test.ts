@@ -0,0 +1,201 @@
+import { describe, it, expect, afterAll, afterEach, vi } from 'vitest';
+import {
+  mkdtempSync,
+  rmSync,
+  existsSync,
+  readdirSync,
+  readFileSync,
+  writeFileSync,
+  utimesSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Point the token directory at a scratch dir before the modules read it
+const root = mkdtempSync(join(tmpdir(), 'whoop-tokens-'));
+const originalTokenPath = process.env['WHOOP_TOKEN_PATH'];
+process.env['WHOOP_TOKEN_PATH'] = root;
+
+// Without client credentials any real refresh fails, which the tests rely on
+const originalClientId = process.env['WHOOP_CLIENT_ID'];
+delete process.env['WHOOP_CLIENT_ID'];
+
+const {
+  saveTokens,
+  loadTokens,
+  getValidTokens,
+  refreshStoredTokens,
+  refreshAccessToken,
+  withTokenLock,
+  takeOverStaleLock,
+} = await import('../src/auth/tokens.js');
+const { setRequestTimeout } = await import('../src/api/timeout.js');
+const { TimeoutError } = await import('../src/utils/errors.js');
+
+const lockFile = join(root, 'tokens.lock');
+
+const tokens = {
+  access_token: 'access',
+  refresh_token: 'refresh',
+  expires_at: Date.now() + 3600000,
+  token_type: 'Bearer',
+  scope: 'read:sleep offline',
+};
+
+afterAll(() => {
+  if (originalTokenPath === undefined) {
+    delete process.env['WHOOP_TOKEN_PATH'];
+  } else {
+    process.env['WHOOP_TOKEN_PATH'] = originalTokenPath;
+  }
+  if (originalClientId !== undefined) {
+    process.env['WHOOP_CLIENT_ID'] = originalClientId;
+  }
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('saveTokens', () => {
+  it('replaces the token file without leaving temp files', () => {
+    saveTokens(tokens);
+    saveTokens({ ...tokens, access_token: 'newer' });
+
+    expect(loadTokens()?.access_token).toBe('newer');
+    expect(readdirSync(root)).toEqual(['tokens.json']);
+  });
+});
+
+describe('withTokenLock', () => {
+  it('runs one holder at a time and releases the lock', async () => {
+    const events: string[] = [];
+
+    await Promise.all([
+      withTokenLock(async () => {
+        events.push('a:start');
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        events.push('a:end');
+      }),
+      withTokenLock(() => {
+        events.push('b');
+        return Promise.resolve();
+      }),
+    ]);
+
+    expect(events).toEqual(['a:start', 'a:end', 'b']);
+    expect(existsSync(lockFile)).toBe(false);
+  });
+
+  it('releases the lock when the function throws', async () => {
+    await expect(withTokenLock(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+
+    expect(existsSync(lockFile)).toBe(false);
+  });
+
+  it('takes over a lock abandoned by a crashed process', async () => {
+    writeFileSync(lockFile, '12345');
+    const old = new Date(Date.now() - 10 * 60 * 1000);
+    utimesSync(lockFile, old, old);
+
+    await expect(withTokenLock(() => Promise.resolve('ok'))).resolves.toBe('ok');
+  });
+
+  it('puts back a live lock when two waiters take over the same stale lock', async () => {
+    writeFileSync(lockFile, '12345');
+    const old = new Date(Date.now() - 10 * 60 * 1000);
+    utimesSync(lockFile, old, old);
+
+    // Both waiters judged the lock stale. The first takes it over and holds the lock...
+    takeOverStaleLock(lockFile);
+    let release: () => void = () => undefined;
+    const holder = withTokenLock(() => new Promise<void>((resolve) => (release = resolve)));
+
+    // ...so the second one's takeover finds a live lock, which it must leave in place
+    takeOverStaleLock(lockFile);
+    expect(readFileSync(lockFile, 'utf8')).toBe(String(process.pid));
+
+    const events: string[] = [];
+    const waiter = withTokenLock(() => {
+      events.push('waiter');
+      return Promise.resolve();
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(events).toEqual([]);
+
+    release();
+    await Promise.all([holder, waiter]);
+    expect(events).toEqual(['waiter']);
+    expect(readdirSync(root).filter((name) => name.startsWith('tokens.lock'))).toEqual([]);
+  });
+});
+
+describe('refreshStoredTokens', () => {
+  it('reuses tokens another process refreshed while it waited', async () => {
+    saveTokens({ ...tokens, access_token: 'expired', expires_at: Date.now() - 1000 });
+
+    // Another process holds the lock and saves fresh tokens before releasing it
+    let release: () => void = () => undefined;
+    const holder = withTokenLock(
+      () =>
+        new Promise<void>((resolve) => {
+          release = (): void => {
+            saveTokens({ ...tokens, access_token: 'refreshed-elsewhere' });
+            resolve();
+          };
+        })
+    );
+
+    const waiting = getValidTokens();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    release();
+    await holder;
+
+    // An actual refresh would fail without WHOOP_CLIENT_ID
+    expect((await waiting).access_token).toBe('refreshed-elsewhere');
+  });
+
+  it('does not refresh tokens that are still valid unless forced', async () => {
+    saveTokens(tokens);
+
+    await expect(refreshStoredTokens()).resolves.toEqual(tokens);
+    await expect(refreshStoredTokens(true)).rejects.toThrow('WHOOP_CLIENT_ID');
+  });
+});
+
+describe('refreshAccessToken', () => {
+  // A token endpoint that never answers, until the request is aborted
+  const hangingFetch = vi.fn(
+    (_url: string, init: RequestInit): Promise<Response> =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(init.signal?.reason as Error));
+      })
+  );
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    setRequestTimeout(undefined);
+    hangingFetch.mockClear();
+  });
+
+  it('gives up on a hung token endpoint after the request timeout', async () => {
+    vi.stubGlobal('fetch', hangingFetch);
+    vi.stubEnv('WHOOP_CLIENT_ID', 'id');
+    vi.stubEnv('WHOOP_CLIENT_SECRET', 'secret');
+    setRequestTimeout(50);
+
+    await expect(refreshAccessToken(tokens)).rejects.toThrow(TimeoutError);
+    expect(hangingFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops when the caller's signal aborts", async () => {
+    vi.stubGlobal('fetch', hangingFetch);
+    vi.stubEnv('WHOOP_CLIENT_ID', 'id');
+    vi.stubEnv('WHOOP_CLIENT_SECRET', 'secret');
+    setRequestTimeout(60000);
+    const controller = new AbortController();
+
+    const refreshing = refreshAccessToken(tokens, controller.signal);
+    controller.abort(new Error('cancelled'));
+
+    await expect(refreshing).rejects.toThrow('cancelled');
+  });
+});
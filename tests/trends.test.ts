@@ -0,0 +1,237 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDailySeries,
+  calculateStats,
+  calculateBaseline,
+  calculateTrends,
+  rollingStats,
+  zScore,
+  formatTrends,
+} from '../src/utils/trends.js';
+import type { CombinedOutput, WhoopCycle, WhoopRecovery, WhoopSleep } from '../src/types/whoop.js';
+
+// Timestamps at midday UTC land on the same WHOOP day in any common timezone
+function recovery(date: string, hrv: number, created = '12:00:00'): WhoopRecovery {
+  return {
+    cycle_id: Date.parse(date),
+    sleep_id: `sleep-${date}`,
+    user_id: 1,
+    created_at: `${date}T${created}Z`,
+    updated_at: `${date}T${created}Z`,
+    score_state: 'SCORED',
+    score: {
+      user_calibrating: false,
+      recovery_score: 60,
+      resting_heart_rate: 55,
+      hrv_rmssd_milli: hrv,
+      spo2_percentage: 96,
+      skin_temp_celsius: 33.5,
+    },
+  } as WhoopRecovery;
+}
+
+function sleep(date: string, performance: number, nap = false): WhoopSleep {
+  return {
+    id: `sleep-${date}-${nap}`,
+    start: `${date}T04:00:00Z`,
+    end: `${date}T12:00:00Z`,
+    nap,
+    score: { sleep_performance_percentage: performance, respiratory_rate: 14 },
+  } as unknown as WhoopSleep;
+}
+
+function cycle(date: string, strain: number): WhoopCycle {
+  return {
+    id: Date.parse(date),
+    start: `${date}T12:00:00Z`,
+    score: { strain },
+  } as unknown as WhoopCycle;
+}
+
+function days(count: number, end = '2026-01-31'): string[] {
+  const last = Date.parse(`${end}T12:00:00Z`);
+  return Array.from({ length: count }, (_, i) =>
+    new Date(last - (count - 1 - i) * 86400000).toISOString().slice(0, 10)
+  );
+}
+
+describe('calculateStats', () => {
+  it('returns mean and sample standard deviation', () => {
+    const { mean, sd } = calculateStats([2, 4, 4, 4, 5, 5, 7, 9]);
+
+    expect(mean).toBe(5);
+    expect(sd).toBeCloseTo(2.138, 3);
+  });
+
+  it('returns nulls without enough values', () => {
+    expect(calculateStats([])).toEqual({ mean: null, sd: null });
+    expect(calculateStats([3])).toEqual({ mean: 3, sd: null });
+  });
+});
+
+describe('zScore', () => {
+  it('measures distance from the mean in standard deviations', () => {
+    expect(zScore(40, 50, 5)).toBe(-2);
+  });
+
+  it('returns null without a spread', () => {
+    expect(zScore(40, 50, 0)).toBeNull();
+    expect(zScore(40, 50, null)).toBeNull();
+  });
+});
+
+describe('buildDailySeries', () => {
+  it('keeps one value per day, oldest first', () => {
+    const data: CombinedOutput = {
+      date: '2026-01-12',
+      fetched_at: '',
+      // API order: newest first
+      recovery: [
+        recovery('2026-01-12', 50, '13:00:00'),
+        recovery('2026-01-12', 40),
+        recovery('2026-01-11', 45),
+      ],
+    };
+
+    const series = buildDailySeries(data);
+
+    expect(series.hrv).toEqual([
+      { date: '2026-01-11', value: 45 },
+      { date: '2026-01-12', value: 50 },
+    ]);
+    expect(series.rhr).toHaveLength(2);
+  });
+
+  it('attributes sleep to the day it ended and skips naps', () => {
+    const series = buildDailySeries({
+      date: '2026-01-12',
+      fetched_at: '',
+      sleep: [sleep('2026-01-12', 20, true), sleep('2026-01-12', 90)],
+    });
+
+    expect(series.sleep_performance).toEqual([{ date: '2026-01-12', value: 90 }]);
+    expect(series.respiratory_rate).toEqual([{ date: '2026-01-12', value: 14 }]);
+  });
+
+  it('skips unscored records', () => {
+    const unscored = { ...recovery('2026-01-12', 50), score: undefined };
+    const series = buildDailySeries({
+      date: '2026-01-12',
+      fetched_at: '',
+      recovery: [unscored as unknown as WhoopRecovery],
+      cycle: [cycle('2026-01-12', 12.3)],
+    });
+
+    expect(series.hrv).toEqual([]);
+    expect(series.strain).toEqual([{ date: '2026-01-12', value: 12.3 }]);
+  });
+});
+
+describe('calculateBaseline', () => {
+  const series = [
+    { date: '2026-01-01', value: 10 },
+    { date: '2026-01-08', value: 20 },
+    { date: '2026-01-09', value: 30 },
+    { date: '2026-01-10', value: 100 },
+  ];
+
+  it('uses only the days before the given day within the window', () => {
+    const baseline = calculateBaseline(series, '2026-01-10', 7, 100);
+
+    expect(baseline.n).toBe(2);
+    expect(baseline.mean).toBe(25);
+    expect(baseline.sd).toBe(7.07);
+    expect(baseline.z).toBe(10.61);
+  });
+
+  it('includes older days in longer windows', () => {
+    expect(calculateBaseline(series, '2026-01-10', 30).n).toBe(3);
+  });
+});
+
+describe('rollingStats', () => {
+  it('computes a baseline for every day', () => {
+    const points = rollingStats(
+      [
+        { date: '2026-01-01', value: 10 },
+        { date: '2026-01-02', value: 20 },
+        { date: '2026-01-03', value: 30 },
+      ],
+      7
+    );
+
+    expect(points[0]).toEqual({ date: '2026-01-01', value: 10, mean: null, sd: null, z: null });
+    expect(points[1]?.mean).toBe(10);
+    expect(points[2]?.mean).toBe(15);
+    expect(points[2]?.z).toBe(2.12);
+  });
+});
+
+describe('calculateTrends', () => {
+  // Alternating 45/55 HRV baseline, then a low day
+  const dates = days(31);
+  const data: CombinedOutput = {
+    date: '2026-01-31',
+    fetched_at: '',
+    recovery: dates
+      .map((date, i) => recovery(date, i === dates.length - 1 ? 40 : i % 2 ? 55 : 45))
+      .reverse(),
+  };
+
+  it('compares the latest value against each window', () => {
+    const report = calculateTrends(data);
+    const hrv = report.metrics.find((m) => m.metric === 'hrv');
+
+    expect(report.as_of).toBe('2026-01-31');
+    expect(report.windows).toEqual([7, 30, 90]);
+    expect(hrv?.current).toEqual({ date: '2026-01-31', value: 40 });
+    expect(hrv?.baselines.map((b) => b.window)).toEqual([7, 30, 90]);
+    expect(hrv?.baselines[1]?.n).toBe(30);
+    expect(hrv?.baselines[1]?.mean).toBe(50);
+    expect(hrv?.baselines[1]?.z).toBeLessThan(-1.5);
+  });
+
+  it('flags large deviations on the 30-day baseline', () => {
+    const report = calculateTrends(data);
+
+    expect(report.flags).toEqual(['HRV −2.0σ']);
+    // Constant metrics have no spread, so no z-score
+    expect(report.metrics.find((m) => m.metric === 'rhr')?.flag).toBeNull();
+  });
+
+  it('respects asOf and a custom threshold', () => {
+    const report = calculateTrends(data, { asOf: '2026-01-30', flagThreshold: 5 });
+    const hrv = report.metrics.find((m) => m.metric === 'hrv');
+
+    expect(hrv?.current?.date).toBe('2026-01-30');
+    expect(report.flags).toEqual([]);
+  });
+
+  it('reports metrics without data', () => {
+    const report = calculateTrends({ date: '2026-01-31', fetched_at: '' });
+    const strain = report.metrics.find((m) => m.metric === 'strain');
+
+    expect(strain?.current).toBeNull();
+    expect(strain?.baselines[0]).toEqual({ window: 7, mean: null, sd: null, n: 0, z: null });
+  });
+});
+
+describe('formatTrends', () => {
+  it('shows values, baselines and flags', () => {
+    const dates = days(10);
+    const output = formatTrends(
+      calculateTrends({
+        date: '2026-01-31',
+        fetched_at: '',
+        recovery: dates.map((date, i) =>
+          recovery(date, i === dates.length - 1 ? 20 : i % 2 ? 55 : 45)
+        ),
+      })
+    );
+
+    expect(output).toContain('Trends as of 2026-01-31');
+    expect(output).toContain('HRV: 20ms');
+    expect(output).toContain('Strain: No data');
+    expect(output).toContain('⚠️  HRV −');
+  });
+});
@@ -0,0 +1,281 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Keep wake history out of the real profile directory
+const root = mkdtempSync(join(tmpdir(), 'whoop-wake-'));
+const originalTokenPath = process.env['WHOOP_TOKEN_PATH'];
+process.env['WHOOP_TOKEN_PATH'] = root;
+
+const {
+  checkWake,
+  explainWake,
+  buildWakeModel,
+  backtestWake,
+  formatBacktest,
+  formatWakeResult,
+  loadHistory,
+  calculateRollingStats,
+  minutesBetween,
+  DEFAULT_WAKE_MODEL,
+} = await import('../src/utils/wake.js');
+const { WhoopError, ExitCode } = await import('../src/utils/errors.js');
+const { setTimeZone } = await import('../src/utils/date.js');
+
+afterAll(() => {
+  if (originalTokenPath === undefined) {
+    delete process.env['WHOOP_TOKEN_PATH'];
+  } else {
+    process.env['WHOOP_TOKEN_PATH'] = originalTokenPath;
+  }
+  rmSync(root, { recursive: true, force: true });
+});
+
+function sleep(
+  end: string,
+  hoursInBed: number,
+  cycles: number,
+  performance: number,
+  start = '2026-01-11T23:00:00.000Z'
+): object {
+  return {
+    start,
+    end,
+    timezone_offset: '+00:00',
+    score: {
+      stage_summary: {
+        total_in_bed_time_milli: hoursInBed * 3600000,
+        sleep_cycle_count: cycles,
+      },
+      sleep_performance_percentage: performance,
+      sleep_efficiency_percentage: 90,
+    },
+  };
+}
+
+const fullNight = sleep('2026-01-12T07:00:00.000Z', 8, 4, 85);
+// Ends at 3am: passes end_hour_minimum and cycles (5 of 10 points)
+const midSleep = sleep('2026-01-12T03:00:00.000Z', 4, 2, 50);
+
+describe('buildWakeModel', () => {
+  it('starts from the defaults and applies overrides', () => {
+    expect(buildWakeModel()).toEqual(DEFAULT_WAKE_MODEL);
+
+    const model = buildWakeModel({
+      weights: 'duration=3, performance=0',
+      cutoff: '5',
+      thresholds: 'durationRatio=0.6',
+      defaults: 'avgEndMinutes=480,earliestEndMinutes=420',
+    });
+
+    expect(model.weights).toMatchObject({ end_hour_minimum: 3, duration: 3, performance: 0 });
+    expect(model.cutoff).toBe(5);
+    expect(model.thresholds).toMatchObject({ durationRatio: 0.6, performanceRatio: 0.75 });
+    expect(model.defaults).toMatchObject({
+      avgEndMinutes: 480,
+      earliestEndMinutes: 420,
+      avgDuration: 7,
+    });
+  });
+
+  it('rejects unknown parameters and unreachable cutoffs', () => {
+    expect(() => buildWakeModel({ weights: 'naps=2' })).toThrow(/Unknown wake parameter: naps/);
+    expect(() => buildWakeModel({ thresholds: 'durationRatio=abc' })).toThrow(WhoopError);
+    expect(() => buildWakeModel({ cutoff: '11' })).toThrow(/at most the maximum score \(10\)/);
+    expect(() => buildWakeModel({ weights: 'cycles=-1' })).toThrow(/non-negative number/);
+  });
+});
+
+describe('checkWake', () => {
+  it('includes the effective model in the result', () => {
+    const result = checkWake(fullNight, []);
+
+    expect(result).toMatchObject({ isAwake: true, score: 10, maxScore: 10 });
+    expect(result.model).toEqual(DEFAULT_WAKE_MODEL);
+    expect(result.checks.map((check) => check.points)).toEqual([3, 2, 2, 2, 1]);
+    expect(result.checks[2]).toMatchObject({ name: 'duration', value: 8, threshold: 4.9 });
+  });
+
+  it('decides with configured weights and cutoff', () => {
+    expect(checkWake(midSleep, []).isAwake).toBe(false);
+
+    const lenient = buildWakeModel({ cutoff: '5' });
+    const result = checkWake(midSleep, [], lenient);
+
+    expect(result).toMatchObject({ isAwake: true, score: 5 });
+    expect(formatWakeResult(result)).toContain('Score: 5/10 (threshold: 5)');
+  });
+
+  it('uses configured defaults until there is history', () => {
+    const lateRiser = buildWakeModel({ defaults: 'earliestEndMinutes=540' });
+    const result = checkWake(fullNight, [], lateRiser);
+
+    expect(result.thresholds.endMinutesMin).toBe(420);
+    expect(result.checks[1]).toMatchObject({ name: 'end_hour_typical', passed: false });
+  });
+
+  it('rejects a sleep without a score as invalid data', () => {
+    let error: unknown;
+    try {
+      checkWake({ ...fullNight, score: undefined }, []);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(WhoopError);
+    expect((error as InstanceType<typeof WhoopError>).exitCode).toBe(ExitCode.SCHEMA_ERROR);
+  });
+});
+
+describe('end times around midnight', () => {
+  // Wakes between 23:40 and 00:10 local, e.g. Asia/Pacific users around 00:00 UTC
+  const history = [1430, 10, 0, 1420].map((endMinutes, i) => ({
+    date: `2026-01-0${i + 1}`,
+    endMinutes,
+    durationHours: 8,
+    cycles: 4,
+    performance: 85,
+    efficiency: 90,
+  }));
+
+  it('measures the short way round the clock', () => {
+    expect(minutesBetween(1430, 10)).toBe(20);
+    expect(minutesBetween(10, 1430)).toBe(-20);
+  });
+
+  it('uses the circular mean and spread of end times', () => {
+    expect(calculateRollingStats(history)).toMatchObject({
+      avgEndMinutes: 1435,
+      earliestEndMinutes: 1420,
+      endSpreadMinutes: 11,
+    });
+  });
+
+  it('accepts a wake just after midnight and shows local times', () => {
+    const afterMidnight = sleep('2026-01-06T00:25:00.000Z', 8, 4, 85, '2026-01-05T16:25:00.000Z');
+    const result = checkWake(afterMidnight, history);
+
+    expect(result.thresholds.endMinutesMin).toBe(1300);
+    expect(result.checks.slice(0, 2).map((check) => check.passed)).toEqual([true, true]);
+    expect(result.sleep).toMatchObject({ endLocalTime: '00:25', endMinutes: 25 });
+
+    const output = formatWakeResult(result);
+    expect(output).toContain('End time: 00:25 local (2026-01-06T00:25:00.000Z)');
+    expect(output).toContain('Typical end: 23:55 local (earliest 23:40, spread ±11 min)');
+    expect(output).toContain('End time: >= 21:40 local');
+  });
+});
+
+describe('loadHistory', () => {
+  it('migrates history saved with hour-only end times', () => {
+    setTimeZone('Asia/Tokyo');
+    const record = { durationHours: 8, cycles: 4, performance: 85, efficiency: 90 };
+    writeFileSync(
+      join(root, 'sleep-history.json'),
+      JSON.stringify([
+        { ...record, date: '2026-01-10', endUtcHour: 23, endLocalHour: 8 },
+        { ...record, date: '2026-01-11', endUtcHour: 22 },
+      ])
+    );
+
+    try {
+      const history = loadHistory();
+
+      expect(history.map((h) => h.endMinutes)).toEqual([480, 420]);
+      expect(history[0]).not.toHaveProperty('endUtcHour');
+      expect(JSON.parse(readFileSync(join(root, 'sleep-history.json'), 'utf-8'))).toEqual(history);
+    } finally {
+      setTimeZone(undefined);
+    }
+  });
+});
+
+describe('explainWake', () => {
+  it('shows which checks would flip a negative decision', () => {
+    const explanation = explainWake(checkWake(midSleep, []));
+
+    expect(explanation).toMatchObject({ decision: 'not_awake', score: 5, cutoff: 6 });
+    expect(explanation.checks.filter((check) => check.flips).map((check) => check.name)).toEqual([
+      'end_hour_typical',
+      'duration',
+      'performance',
+    ]);
+    expect(explanation.checks[1]?.needed).toBe('at or after 05:00 (+120 min)');
+    expect(explanation.checks[2]).toMatchObject({
+      passed: false,
+      scoreIfFlipped: 7,
+      needed: 'at least 4.9 (+0.9)',
+    });
+    expect(explanation.summary).toBe(
+      'Passing any of end_hour_typical, duration, performance would flip the decision'
+    );
+  });
+
+  it('says when no single check flips the decision', () => {
+    const explanation = explainWake(checkWake(fullNight, []));
+
+    expect(explanation.checks.some((check) => check.flips)).toBe(false);
+    expect(explanation.summary).toBe(
+      'No single check flips the decision (score 10 is 4 above the cutoff)'
+    );
+  });
+});
+
+describe('backtestWake', () => {
+  // A night on the given day: optionally a mid-sleep wake at 3am, then the real wake at 7am
+  function night(day: string, midSleepWake: boolean): object[] {
+    const next = new Date(Date.parse(`${day}T00:00:00.000Z`) + 86400000).toISOString().slice(0, 10);
+    const wake = sleep(`${next}T07:00:00.000Z`, 8, 4, 85, `${day}T23:00:00.000Z`);
+    const early = sleep(`${next}T03:00:00.000Z`, 4, 2, 50, `${day}T23:00:00.000Z`);
+    return midSleepWake ? [wake, early] : [wake];
+  }
+
+  const sleeps = [
+    ...night('2026-01-01', false),
+    ...night('2026-01-02', true),
+    ...night('2026-01-03', false),
+    { ...night('2026-01-03', false)[0], nap: true },
+  ];
+
+  it('scores calls against the last primary sleep of each day', () => {
+    const report = backtestWake(sleeps, { from: '2026-01-02', to: '2026-01-03' });
+
+    expect(report.summary).toEqual({
+      sleeps: 3,
+      wakes: 2,
+      truePositives: 2,
+      falsePositives: 0,
+      falseNegatives: 0,
+      trueNegatives: 1,
+      precision: 1,
+      recall: 1,
+      accuracy: 1,
+    });
+    expect(report.daily.map((day) => [day.date, day.sleeps.map((s) => s.outcome)])).toEqual([
+      ['2026-01-02', ['true_not_awake', 'true_awake']],
+      ['2026-01-03', ['true_awake']],
+    ]);
+    expect(formatBacktest(report)).toContain('Precision: 100% | Recall: 100%');
+  });
+
+  it('lists false awake calls under a lenient model', () => {
+    const report = backtestWake(
+      sleeps,
+      { from: '2026-01-02', to: '2026-01-03' },
+      buildWakeModel({ thresholds: 'endMarginMinutes=300', cutoff: '3' })
+    );
+
+    expect(report.summary).toMatchObject({ falsePositives: 1, precision: 0.667 });
+    expect(report.falseAwake).toEqual([
+      expect.objectContaining({ date: '2026-01-02', endLocalTime: '03:00', actualAwake: false }),
+    ]);
+  });
+
+  it('does not touch the saved history', () => {
+    const before = loadHistory();
+    backtestWake(sleeps, { from: '2026-01-01', to: '2026-01-03' });
+
+    expect(loadHistory()).toEqual(before);
+  });
+});